@@ -1,29 +1,34 @@
-import React, { useRef, useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import { Select, Typography } from 'antd';
 import { SearchOutlined } from '@ant-design/icons';
-import { TOKEN_MINTS } from '../utils/markets';
+import { TokenMint, useTokenMints } from '../utils/marketRegistry';
+import { useExplorerUrl } from '../utils/connection';
 import apps from '@project-serum/awesome-serum';
 
 const { Option } = Select;
 
-const appsAndTokens = apps.concat(
-  TOKEN_MINTS.map((mint) => {
-    return {
-      name: `${mint.name} SPL`,
-      url: `https://solscan.io/address/${mint.address.toBase58()}`,
-      description: `${mint.name} SPL token`,
-      icon: '',
-      tags: [
-        'token',
-        'blockchain',
-        'solana',
-        'spl',
-        'solana',
-        mint.address.toBase58(),
-      ],
-    };
-  }),
-);
+const getAppsAndTokens = (
+  tokenMints: TokenMint[],
+  getExplorerUrl: (type: 'tx' | 'address', value: string) => string,
+): App[] =>
+  apps.concat(
+    tokenMints.map((mint) => {
+      return {
+        name: `${mint.name} SPL`,
+        url: getExplorerUrl('address', mint.address.toBase58()),
+        description: `${mint.name} SPL token`,
+        icon: '',
+        tags: [
+          'token',
+          'blockchain',
+          'solana',
+          'spl',
+          'solana',
+          mint.address.toBase58(),
+        ],
+      };
+    }),
+  );
 
 interface App {
   name: string;
@@ -35,6 +40,12 @@ interface App {
 export default function AppSearch(props) {
   const [searchMatches, setSearchMatches] = useState<App[]>([]);
   const [searchValue, setSearchValue] = useState<string | undefined>(undefined);
+  const tokenMints = useTokenMints();
+  const getExplorerUrl = useExplorerUrl();
+  const appsAndTokens = useMemo(
+    () => getAppsAndTokens(tokenMints, getExplorerUrl),
+    [tokenMints, getExplorerUrl],
+  );
 
   const matchApp = (searchString: string, app: App) => {
     const lowerSearchStr = searchString.toLowerCase();
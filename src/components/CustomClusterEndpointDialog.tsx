@@ -1,7 +1,39 @@
 import React, { useState } from 'react';
-import { Col, Input, Modal, Row } from 'antd';
+import { Col, Input, Modal, Row, Select } from 'antd';
+import { Commitment } from '@solana/web3.js';
 import { EndpointInfo } from '../utils/types';
 
+const COMMITMENTS: Commitment[] = ['processed', 'confirmed', 'finalized'];
+
+// Adds https:// to urls typed without a scheme
+function withScheme(url: string) {
+  return url.includes('://') ? url : 'https://' + url;
+}
+
+function hasProtocol(url: string, protocols: string[]) {
+  try {
+    return protocols.includes(new URL(url).protocol);
+  } catch (e) {
+    return false;
+  }
+}
+
+// One `Name: value` header per line
+function parseHeaders(text: string): { [header: string]: string } | null {
+  const headers = {};
+  for (const line of text.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    const separator = line.indexOf(':');
+    if (separator <= 0) {
+      return null;
+    }
+    headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+  }
+  return headers;
+}
+
 export default function CustomClusterEndpointDialog({
   visible,
   testingConnection,
@@ -15,13 +47,30 @@ export default function CustomClusterEndpointDialog({
 }) {
   const [customEndpoint, setCustomEndpoint] = useState('');
   const [customEndpointName, setCustomEndpointName] = useState('');
+  const [wsEndpoint, setWsEndpoint] = useState('');
+  const [authToken, setAuthToken] = useState('');
+  const [headersText, setHeadersText] = useState('');
+  const [commitment, setCommitment] = useState<Commitment | undefined>();
+  const [sendEndpoints, setSendEndpoints] = useState<string[]>([]);
+  const [explorerUrl, setExplorerUrl] = useState('');
+
+  const fullEndpoint = withScheme(customEndpoint);
+  const headers = parseHeaders(headersText);
+  if (headers && authToken) {
+    headers['Authorization'] = `Bearer ${authToken}`;
+  }
 
   const onSubmit = () => {
-    const fullEndpoint = 'https://' + customEndpoint;
     const params = {
       name: customEndpointName,
       endpoint: fullEndpoint,
       custom: true,
+      wsEndpoint: wsEndpoint || undefined,
+      httpHeaders:
+        headers && Object.keys(headers).length > 0 ? headers : undefined,
+      commitment,
+      sendEndpoints: sendEndpoints.map(withScheme),
+      explorerUrl: explorerUrl ? withScheme(explorerUrl) : undefined,
     };
     onAddCustomEndpoint(params);
     onDoClose();
@@ -29,9 +78,24 @@ export default function CustomClusterEndpointDialog({
   const onDoClose = () => {
     setCustomEndpoint('');
     setCustomEndpointName('');
+    setWsEndpoint('');
+    setAuthToken('');
+    setHeadersText('');
+    setCommitment(undefined);
+    setSendEndpoints([]);
+    setExplorerUrl('');
     onClose && onClose();
   };
-  const canSubmit = customEndpoint !== '' && customEndpointName !== '';
+  const canSubmit =
+    customEndpoint !== '' &&
+    customEndpointName !== '' &&
+    hasProtocol(fullEndpoint, ['http:', 'https:']) &&
+    (!wsEndpoint || hasProtocol(wsEndpoint, ['ws:', 'wss:'])) &&
+    !!headers &&
+    sendEndpoints.every((endpoint) =>
+      hasProtocol(withScheme(endpoint), ['http:', 'https:']),
+    ) &&
+    (!explorerUrl || hasProtocol(withScheme(explorerUrl), ['http:', 'https:']));
 
   return (
     <Modal
@@ -54,13 +118,79 @@ export default function CustomClusterEndpointDialog({
       <Row style={{ marginBottom: 8 }}>
         <Col span={24}>
           <Input
-            placeholder="Cluster Endpoint"
+            placeholder="Cluster Endpoint (https:// unless another scheme is given)"
             value={customEndpoint}
-            addonBefore={'https://'}
             onChange={(e) => setCustomEndpoint(e.target.value)}
           />
         </Col>
       </Row>
+      <Row style={{ marginBottom: 8 }}>
+        <Col span={24}>
+          <Input
+            placeholder="WebSocket Endpoint (optional, wss:// or ws://)"
+            value={wsEndpoint}
+            onChange={(e) => setWsEndpoint(e.target.value)}
+          />
+        </Col>
+      </Row>
+      <Row style={{ marginBottom: 8 }}>
+        <Col span={24}>
+          <Input.Password
+            placeholder="Auth Token (optional, sent as a bearer token)"
+            value={authToken}
+            onChange={(e) => setAuthToken(e.target.value)}
+          />
+        </Col>
+      </Row>
+      <Row style={{ marginBottom: 8 }}>
+        <Col span={24}>
+          <Input.TextArea
+            placeholder="HTTP Headers (optional, one Name: value per line)"
+            value={headersText}
+            autoSize={{ minRows: 1, maxRows: 4 }}
+            onChange={(e) => setHeadersText(e.target.value)}
+          />
+        </Col>
+      </Row>
+      <Row style={{ marginBottom: 8 }}>
+        <Col span={24}>
+          <Select
+            allowClear
+            style={{ width: '100%' }}
+            placeholder="Commitment (optional, defaults to recent)"
+            value={commitment}
+            onChange={setCommitment}
+          >
+            {COMMITMENTS.map((commitment) => (
+              <Select.Option value={commitment} key={commitment}>
+                {commitment}
+              </Select.Option>
+            ))}
+          </Select>
+        </Col>
+      </Row>
+      <Row style={{ marginBottom: 8 }}>
+        <Col span={24}>
+          <Select
+            mode="tags"
+            style={{ width: '100%' }}
+            placeholder="Send Endpoints (optional, defaults to the endpoint above)"
+            value={sendEndpoints}
+            onChange={setSendEndpoints}
+            open={false}
+            tokenSeparators={[',', ' ']}
+          />
+        </Col>
+      </Row>
+      <Row style={{ marginBottom: 8 }}>
+        <Col span={24}>
+          <Input
+            placeholder="Explorer URL (optional, defaults to Solscan)"
+            value={explorerUrl}
+            onChange={(e) => setExplorerUrl(e.target.value)}
+          />
+        </Col>
+      </Row>
     </Modal>
   );
 }
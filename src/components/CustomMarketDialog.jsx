@@ -3,8 +3,9 @@ import { Col, Input, Modal, Row, Typography } from 'antd';
 import { notify } from '../utils/notifications';
 import { isValidPublicKey } from '../utils/utils';
 import { PublicKey } from '@solana/web3.js';
-import { Market, MARKETS, TOKEN_MINTS } from '@project-serum/serum';
+import { DEX_ID, Market } from '@project-serum/serum';
 import { useAccountInfo, useConnection } from '../utils/connection';
+import { useMarketRegistry } from '../utils/marketRegistry';
 import { LoadingOutlined } from '@ant-design/icons';
 
 const { Text } = Typography;
@@ -15,6 +16,7 @@ export default function CustomMarketDialog({
   onClose,
 }) {
   const connection = useConnection();
+  const [{ markets, tokens }] = useMarketRegistry();
 
   const [marketId, setMarketId] = useState('');
 
@@ -32,7 +34,7 @@ export default function CustomMarketDialog({
   );
   const programId = marketAccountInfo
     ? marketAccountInfo.owner.toBase58()
-    : MARKETS.find(({ deprecated }) => !deprecated).programId.toBase58();
+    : DEX_ID.toBase58();
 
   useEffect(() => {
     if (!wellFormedMarketId || !programId) {
@@ -63,22 +65,20 @@ export default function CustomMarketDialog({
     setQuoteLabel(null);
   };
 
-  const knownMarket = MARKETS.find(
+  const knownMarket = markets.find(
     (m) =>
       m.address.toBase58() === marketId && m.programId.toBase58() === programId,
   );
-  const knownProgram = MARKETS.find(
+  const knownProgram = markets.find(
     (m) => m.programId.toBase58() === programId,
   );
   const knownBaseCurrency =
     market?.baseMintAddress &&
-    TOKEN_MINTS.find((token) => token.address.equals(market.baseMintAddress))
-      ?.name;
+    tokens.find((token) => token.address.equals(market.baseMintAddress))?.name;
 
   const knownQuoteCurrency =
     market?.quoteMintAddress &&
-    TOKEN_MINTS.find((token) => token.address.equals(market.quoteMintAddress))
-      ?.name;
+    tokens.find((token) => token.address.equals(market.quoteMintAddress))?.name;
 
   const canSubmit =
     !loadingMarket &&
@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Input, Modal, Row, Typography } from 'antd';
+import { struct } from 'superstruct';
+import { notify } from '../utils/notifications';
+import { isValidPublicKey } from '../utils/utils';
+
+const { Paragraph } = Typography;
+
+const CustomMarkets = struct([
+  struct({
+    address: 'string',
+    name: 'string',
+    programId: 'string',
+    baseLabel: 'string?',
+    quoteLabel: 'string?',
+  }),
+]);
+
+function parseCustomMarkets(text) {
+  const customMarkets = CustomMarkets(JSON.parse(text));
+  const invalid = customMarkets.find(
+    ({ address, programId }) =>
+      !isValidPublicKey(address) || !isValidPublicKey(programId),
+  );
+  if (invalid) {
+    throw new Error(`Invalid address for market ${invalid.name}`);
+  }
+  return customMarkets;
+}
+
+/**
+ * Exports the custom markets of the current cluster as JSON, and imports
+ * markets exported from another cluster.
+ */
+export default function CustomMarketsTransferDialog({
+  visible,
+  customMarkets,
+  onImport,
+  onClose,
+}) {
+  const [text, setText] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setText(JSON.stringify(customMarkets, null, 2));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible]);
+
+  const onCopy = () => {
+    navigator.clipboard.writeText(text);
+    notify({ message: 'Custom markets copied' });
+  };
+
+  const onSubmit = () => {
+    let imported;
+    try {
+      imported = parseCustomMarkets(text);
+    } catch (e) {
+      notify({
+        message: 'Invalid custom markets',
+        description: e.message,
+        type: 'error',
+      });
+      return;
+    }
+    onImport(imported);
+    onClose();
+  };
+
+  return (
+    <Modal
+      title={'Import / export custom markets'}
+      visible={visible}
+      onOk={onSubmit}
+      okText={'Import'}
+      onCancel={onClose}
+    >
+      <Paragraph>
+        Copy the custom markets of this network, or paste markets exported from
+        another network and import them.
+      </Paragraph>
+      <Input.TextArea
+        rows={10}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+      />
+      <Row style={{ marginTop: 8 }}>
+        <Button onClick={onCopy}>Copy</Button>
+      </Row>
+    </Modal>
+  );
+}
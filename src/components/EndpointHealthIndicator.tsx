@@ -0,0 +1,71 @@
+import React from 'react';
+import { Badge, Popover, Switch, Typography } from 'antd';
+import { useConnectionConfig } from '../utils/connection';
+import { EndpointStatus } from '../utils/types';
+
+const { Paragraph } = Typography;
+
+const STATUS_COLORS: { [status in EndpointStatus]: string } = {
+  healthy: '#41C77A',
+  degraded: '#F2A93B',
+  down: '#F23B69',
+};
+
+const STATUS_LABELS: { [status in EndpointStatus]: string } = {
+  healthy: 'Healthy',
+  degraded: 'Degraded',
+  down: 'Not responding',
+};
+
+export default function EndpointHealthIndicator() {
+  const {
+    endpoint,
+    endpointHealth,
+    autoFailover,
+    setAutoFailover,
+  } = useConnectionConfig();
+  const health = endpointHealth[endpoint];
+
+  const content = (
+    <div>
+      {health ? (
+        <>
+          <Paragraph style={{ marginBottom: 4 }}>
+            {STATUS_LABELS[health.status]}
+          </Paragraph>
+          <Paragraph style={{ marginBottom: 4 }}>
+            Slot: {health.slot ?? '-'}
+            {health.slotLag ? ` (${health.slotLag} behind)` : ''}
+          </Paragraph>
+          <Paragraph style={{ marginBottom: 4 }}>
+            Latency:{' '}
+            {health.latency !== undefined ? `${health.latency} ms` : '-'}
+          </Paragraph>
+          <Paragraph style={{ marginBottom: 4 }}>
+            Errors: {Math.round(health.errorRate * 100)}%
+          </Paragraph>
+        </>
+      ) : (
+        <Paragraph style={{ marginBottom: 4 }}>Checking...</Paragraph>
+      )}
+      <Switch
+        size="small"
+        style={{ marginRight: 10 }}
+        checked={autoFailover}
+        onChange={setAutoFailover}
+      />
+      Switch to a healthy endpoint when this one stops responding
+    </div>
+  );
+
+  return (
+    <Popover
+      content={content}
+      placement="bottomRight"
+      title="RPC status"
+      trigger="hover"
+    >
+      <Badge color={health ? STATUS_COLORS[health.status] : '#8C8C8C'} />
+    </Popover>
+  );
+}
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Button, Input, Modal, Typography } from 'antd';
+import { Keypair, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { useCluster, useConnection } from '../utils/connection';
+import { notify } from '../utils/notifications';
+import { KeypairWalletAdapter, parseSecretKey } from '../wallet-adapters';
+
+const { Paragraph } = Typography;
+
+export default function KeypairWalletSettings({
+  wallet,
+}: {
+  wallet: KeypairWalletAdapter;
+}) {
+  const connection = useConnection();
+  const cluster = useCluster();
+  const [secretKey, setSecretKey] = useState('');
+  const [airdropping, setAirdropping] = useState(false);
+  const canAirdrop = cluster === 'localnet' || cluster === 'devnet';
+
+  async function onImport() {
+    try {
+      await wallet.setKeypair(parseSecretKey(secretKey));
+      setSecretKey('');
+      notify({ message: 'Keypair imported', type: 'success' });
+    } catch (e) {
+      notify({
+        message: 'Error importing keypair',
+        description: e.message,
+        type: 'error',
+      });
+    }
+  }
+
+  async function onNewKeypair() {
+    try {
+      await wallet.setKeypair(Keypair.generate());
+      notify({ message: 'New keypair created', type: 'success' });
+    } catch (e) {
+      notify({
+        message: 'Error creating keypair',
+        description: e.message,
+        type: 'error',
+      });
+    }
+  }
+
+  // The new key replaces the only stored copy of the current one
+  function confirmNewKeypair() {
+    Modal.confirm({
+      title: 'Replace the keypair?',
+      content: (
+        <>
+          <Paragraph>
+            The current secret key is deleted from this browser, along with
+            access to its funds and open orders. Copy it first to keep it.
+          </Paragraph>
+          <Button size="small" onClick={onCopy}>
+            Copy secret key
+          </Button>
+        </>
+      ),
+      okText: 'Replace',
+      okButtonProps: { danger: true },
+      onOk: onNewKeypair,
+    });
+  }
+
+  async function onCopy() {
+    try {
+      await navigator.clipboard.writeText(wallet.exportSecretKey() || '');
+      notify({ message: 'Secret key copied' });
+    } catch (e) {
+      notify({
+        message: 'Error copying secret key',
+        description: e.message,
+        type: 'error',
+      });
+    }
+  }
+
+  async function onAirdrop() {
+    setAirdropping(true);
+    try {
+      const txid = await connection.requestAirdrop(
+        wallet.publicKey,
+        LAMPORTS_PER_SOL,
+      );
+      notify({ message: 'Airdrop requested', txid });
+      await connection.confirmTransaction(txid, 'confirmed');
+      notify({ message: 'Airdrop confirmed', type: 'success', txid });
+    } catch (e) {
+      notify({
+        message: 'Airdrop failed',
+        description: e.message,
+        type: 'error',
+      });
+    } finally {
+      setAirdropping(false);
+    }
+  }
+
+  return (
+    <div style={{ marginTop: 10 }}>
+      Keypair wallet
+      <Paragraph style={{ color: 'rgba(255,255,255,0.5)', marginTop: 10 }}>
+        The secret key is kept in this browser, use it for development only.
+      </Paragraph>
+      <Input.TextArea
+        rows={2}
+        placeholder="Secret key as a JSON byte array"
+        value={secretKey}
+        onChange={(e) => setSecretKey(e.target.value)}
+      />
+      <div style={{ marginTop: 10 }}>
+        <Button
+          size="small"
+          disabled={!secretKey}
+          onClick={onImport}
+          style={{ marginRight: 8 }}
+        >
+          Import
+        </Button>
+        <Button
+          size="small"
+          onClick={confirmNewKeypair}
+          style={{ marginRight: 8 }}
+        >
+          New keypair
+        </Button>
+        <Button size="small" onClick={onCopy} style={{ marginRight: 8 }}>
+          Copy secret key
+        </Button>
+        {canAirdrop && (
+          <Button size="small" loading={airdropping} onClick={onAirdrop}>
+            Airdrop 1 SOL
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
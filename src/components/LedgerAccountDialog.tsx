@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Button, List, Modal, Radio, Typography } from 'antd';
+import { LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { useConnection } from '../utils/connection';
+import { notify } from '../utils/notifications';
+import {
+  formatLedgerDerivationPath,
+  getLedgerAccount,
+  isWebHIDSupported,
+  LedgerTransportType,
+  openLedgerTransport,
+  scanLedgerAccounts,
+  setLedgerAccount,
+} from '../wallet-adapters';
+
+const { Text } = Typography;
+
+// Account paths scanned after the 44'/501' path
+const LEDGER_SCAN_COUNT = 10;
+
+interface ScannedAccount {
+  account?: number;
+  publicKey: PublicKey;
+  balance: number;
+}
+
+export default function LedgerAccountDialog({
+  visible,
+  onConnect,
+  onClose,
+}: {
+  visible: boolean;
+  onConnect: () => void;
+  onClose: () => void;
+}) {
+  const connection = useConnection();
+  const savedAccount = getLedgerAccount();
+  const [transportType, setTransportType] = useState<LedgerTransportType>(
+    savedAccount.transport,
+  );
+  const [scanning, setScanning] = useState(false);
+  const [accounts, setAccounts] = useState<ScannedAccount[]>([]);
+  const [selected, setSelected] = useState<number | undefined>(
+    savedAccount.account,
+  );
+
+  const scan = async () => {
+    setScanning(true);
+    let transport;
+    try {
+      transport = await openLedgerTransport(transportType);
+      const scanned = await scanLedgerAccounts(transport, LEDGER_SCAN_COUNT);
+      const infos = await connection.getMultipleAccountsInfo(
+        scanned.map(({ publicKey }) => publicKey),
+      );
+      setAccounts(
+        scanned.map((scannedAccount, i) => ({
+          ...scannedAccount,
+          balance: (infos[i]?.lamports || 0) / LAMPORTS_PER_SOL,
+        })),
+      );
+    } catch (e) {
+      console.warn(e);
+      notify({
+        message: 'Ledger Error',
+        description: e.message,
+        type: 'error',
+      });
+    } finally {
+      await transport?.close();
+      setScanning(false);
+    }
+  };
+
+  const connect = () => {
+    setLedgerAccount({ transport: transportType, account: selected });
+    onConnect();
+  };
+
+  return (
+    <Modal
+      title="Connect Ledger"
+      visible={visible}
+      okText="Connect"
+      onOk={connect}
+      onCancel={onClose}
+      width={520}
+    >
+      <Radio.Group
+        value={transportType}
+        onChange={(e) => {
+          setTransportType(e.target.value);
+          setAccounts([]);
+        }}
+        style={{ marginBottom: 12 }}
+      >
+        <Radio.Button value="webusb">WebUSB</Radio.Button>
+        <Radio.Button value="webhid" disabled={!isWebHIDSupported()}>
+          WebHID
+        </Radio.Button>
+      </Radio.Group>
+      <Button
+        loading={scanning}
+        onClick={scan}
+        style={{ marginLeft: 12, marginBottom: 12 }}
+      >
+        Scan accounts
+      </Button>
+      {accounts.length > 0 ? (
+        <List
+          size="small"
+          dataSource={accounts}
+          renderItem={({ account, publicKey, balance }) => (
+            <List.Item
+              onClick={() => setSelected(account)}
+              style={{
+                cursor: 'pointer',
+                background:
+                  account === selected ? 'rgba(42, 189, 210, 0.15)' : undefined,
+              }}
+            >
+              <List.Item.Meta
+                title={formatLedgerDerivationPath(account)}
+                description={publicKey.toBase58()}
+              />
+              <Text>{balance} SOL</Text>
+            </List.Item>
+          )}
+        />
+      ) : (
+        <Text type="secondary">
+          Scan to choose an account, or connect with{' '}
+          {formatLedgerDerivationPath(selected)}.
+        </Text>
+      )}
+    </Modal>
+  );
+}
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Button } from 'antd';
 import { LinkOutlined } from '@ant-design/icons';
+import { useExplorerUrl } from '../utils/connection';
 
 export default function LinkAddress({
   title,
@@ -11,13 +12,14 @@ export default function LinkAddress({
   address: string;
   shorten?: boolean;
 }) {
+  const getExplorerUrl = useExplorerUrl();
   return (
     <div>
       {title && <p style={{ color: 'white' }}>{title}</p>}
       <Button
         type="link"
         icon={<LinkOutlined />}
-        href={'https://solscan.io/address/' + address}
+        href={getExplorerUrl('address', address)}
         target="_blank"
         rel="noopener noreferrer"
         style={{ cursor: 'pointer' }}
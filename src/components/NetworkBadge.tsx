@@ -0,0 +1,33 @@
+import React from 'react';
+import { Tag, Tooltip } from 'antd';
+import { useCluster, useGenesisHash } from '../utils/connection';
+import { Cluster } from '../utils/types';
+
+const CLUSTER_LABELS: { [cluster in Cluster]: string } = {
+  'mainnet-beta': 'Mainnet',
+  devnet: 'Devnet',
+  testnet: 'Testnet',
+  localnet: 'Localnet',
+  unknown: 'Unknown network',
+};
+
+const CLUSTER_COLORS: { [cluster in Cluster]: string } = {
+  'mainnet-beta': '#41C77A',
+  devnet: '#2abdd2',
+  testnet: '#F2A93B',
+  localnet: '#8C8C8C',
+  unknown: '#F23B69',
+};
+
+export default function NetworkBadge() {
+  const cluster = useCluster();
+  const [genesisHash] = useGenesisHash();
+
+  return (
+    <Tooltip title={genesisHash ? `Genesis hash ${genesisHash}` : undefined}>
+      <Tag color={CLUSTER_COLORS[cluster]} style={{ fontWeight: 700 }}>
+        {CLUSTER_LABELS[cluster]}
+      </Tag>
+    </Tooltip>
+  );
+}
@@ -1,9 +1,8 @@
 import { Col, Row } from 'antd';
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useMemo, useRef, useEffect } from 'react';
 import styled, { css } from 'styled-components';
 import { useMarket, useOrderbook, useMarkPrice } from '../utils/markets';
 import { isEqual, getDecimalCount } from '../utils/utils';
-import { useInterval } from '../utils/useInterval';
 import FloatingElement from './layout/FloatingElement';
 import usePrevious from '../utils/usePrevious';
 import { ArrowUpOutlined, ArrowDownOutlined } from '@ant-design/icons';
@@ -44,66 +43,58 @@ const Price = styled.div`
   color: white;
 `;
 
+function getCumulativeOrderbookSide(
+  orders,
+  totalSize,
+  depth,
+  backwards = false,
+) {
+  let cumulative = orders
+    .slice(0, depth)
+    .reduce((cumulative, [price, size], i) => {
+      const cumulativeSize = (cumulative[i - 1]?.cumulativeSize || 0) + size;
+      cumulative.push({
+        price,
+        size,
+        cumulativeSize,
+        sizePercent: Math.round((cumulativeSize / (totalSize || 1)) * 100),
+      });
+      return cumulative;
+    }, []);
+  if (backwards) {
+    cumulative = cumulative.reverse();
+  }
+  return cumulative;
+}
+
 export default function Orderbook({ smallScreen, depth = 7, onPrice, onSize }) {
   const markPrice = useMarkPrice();
   const [orderbook] = useOrderbook();
   const { baseCurrency, quoteCurrency } = useMarket();
 
-  const currentOrderbookData = useRef(null);
-  const lastOrderbookData = useRef(null);
-
-  const [orderbookData, setOrderbookData] = useState(null);
-
-  useInterval(() => {
-    if (
-      !currentOrderbookData.current ||
-      JSON.stringify(currentOrderbookData.current) !==
-        JSON.stringify(lastOrderbookData.current)
-    ) {
-      let bids = orderbook?.bids || [];
-      let asks = orderbook?.asks || [];
-
-      let sum = (total, [, size], index) =>
-        index < depth ? total + size : total;
-      let totalSize = bids.reduce(sum, 0) + asks.reduce(sum, 0);
-
-      let bidsToDisplay = getCumulativeOrderbookSide(bids, totalSize, false);
-      let asksToDisplay = getCumulativeOrderbookSide(asks, totalSize, true);
-
-      currentOrderbookData.current = {
-        bids: orderbook?.bids,
-        asks: orderbook?.asks,
-      };
-
-      setOrderbookData({ bids: bidsToDisplay, asks: asksToDisplay });
-    }
-  }, 250);
-
-  useEffect(() => {
-    lastOrderbookData.current = {
-      bids: orderbook?.bids,
-      asks: orderbook?.asks,
-    };
-  }, [orderbook]);
-
-  function getCumulativeOrderbookSide(orders, totalSize, backwards = false) {
-    let cumulative = orders
-      .slice(0, depth)
-      .reduce((cumulative, [price, size], i) => {
-        const cumulativeSize = (cumulative[i - 1]?.cumulativeSize || 0) + size;
-        cumulative.push({
-          price,
-          size,
-          cumulativeSize,
-          sizePercent: Math.round((cumulativeSize / (totalSize || 1)) * 100),
-        });
-        return cumulative;
-      }, []);
-    if (backwards) {
-      cumulative = cumulative.reverse();
-    }
-    return cumulative;
-  }
+  const orderbookData = useMemo(() => {
+    let bids = orderbook?.bids || [];
+    let asks = orderbook?.asks || [];
+
+    let sum = (total, [, size], index) =>
+      index < depth ? total + size : total;
+    let totalSize = bids.reduce(sum, 0) + asks.reduce(sum, 0);
+
+    let bidsToDisplay = getCumulativeOrderbookSide(
+      bids,
+      totalSize,
+      depth,
+      false,
+    );
+    let asksToDisplay = getCumulativeOrderbookSide(
+      asks,
+      totalSize,
+      depth,
+      true,
+    );
+
+    return { bids: bidsToDisplay, asks: asksToDisplay };
+  }, [orderbook, depth]);
 
   return (
     <FloatingElement
@@ -1,18 +1,46 @@
 import React from 'react';
-import { Switch, Typography } from 'antd';
+import { InputNumber, Radio, Switch, Typography } from 'antd';
 import { usePreferences } from '../utils/preferences';
+import { useTradeSource } from '../utils/markets';
+import { useWallet } from '../utils/wallet';
+import { KeypairWalletAdapter } from '../wallet-adapters';
+import KeypairWalletSettings from './KeypairWalletSettings';
 
 const { Paragraph } = Typography;
 
+const PRIORITY_FEE_MODE_LABELS = {
+  off: 'Off',
+  auto: 'Auto',
+  fixed: 'Fixed',
+};
+
+const TRADE_SOURCE_LABELS = {
+  eventQueue: 'Event queue',
+  bonfida: 'Bonfida',
+};
+
 export default function Settings({ autoApprove }) {
-  const { autoSettleEnabled, setAutoSettleEnabled } = usePreferences();
+  const {
+    autoSettleEnabled,
+    setAutoSettleEnabled,
+    autoSettleThreshold,
+    setAutoSettleThreshold,
+    autoSettleStatus,
+    simulateTransactions,
+    setSimulateTransactions,
+    computeBudget,
+    setComputeBudget,
+  } = usePreferences();
+  const [tradeSource, setTradeSource, availableTradeSources] = useTradeSource();
+  const { wallet, autoReconnect, setAutoReconnect } = useWallet();
+  const active = autoApprove && autoSettleEnabled;
 
   return (
     <div>
       <Switch
         style={{ marginRight: 10 }}
         disabled={!autoApprove}
-        checked={autoApprove && autoSettleEnabled}
+        checked={active}
         onChange={setAutoSettleEnabled}
       />{' '}
       Auto settle
@@ -21,6 +49,135 @@ export default function Settings({ autoApprove }) {
           To use auto settle, first enable auto approval in your wallet
         </Paragraph>
       )}
+      {active && (
+        <div style={{ marginTop: 10 }}>
+          Settle above{' '}
+          <InputNumber
+            size="small"
+            min={0}
+            value={autoSettleThreshold}
+            onChange={(value) => setAutoSettleThreshold(Number(value) || 0)}
+          />
+          <Paragraph style={{ color: 'rgba(255,255,255,0.5)', marginTop: 10 }}>
+            {autoSettleStatus.settling
+              ? 'Settling...'
+              : autoSettleStatus.lastRun
+              ? `Last run ${new Date(
+                  autoSettleStatus.lastRun,
+                ).toLocaleTimeString()}`
+              : 'Not run yet'}
+            {autoSettleStatus.pendingMarkets.length > 0 && (
+              <>
+                <br />
+                Pending: {autoSettleStatus.pendingMarkets.join(', ')}
+              </>
+            )}
+            {autoSettleStatus.lastError && (
+              <>
+                <br />
+                <span style={{ color: '#F23B69' }}>
+                  Last error: {autoSettleStatus.lastError}
+                </span>
+              </>
+            )}
+          </Paragraph>
+        </div>
+      )}
+      <div style={{ marginTop: 10 }}>
+        <Switch
+          style={{ marginRight: 10 }}
+          checked={simulateTransactions}
+          onChange={setSimulateTransactions}
+        />{' '}
+        Simulate before signing
+      </div>
+      <div style={{ marginTop: 10 }}>
+        Priority fee
+        <br />
+        <Radio.Group
+          size="small"
+          value={computeBudget.priorityFeeMode}
+          onChange={(e) =>
+            setComputeBudget({
+              ...computeBudget,
+              priorityFeeMode: e.target.value,
+            })
+          }
+        >
+          {Object.entries(PRIORITY_FEE_MODE_LABELS).map(([mode, label]) => (
+            <Radio.Button key={mode} value={mode}>
+              {label}
+            </Radio.Button>
+          ))}
+        </Radio.Group>
+        {computeBudget.priorityFeeMode !== 'off' && (
+          <div style={{ marginTop: 10 }}>
+            {computeBudget.priorityFeeMode === 'auto' ? 'At most ' : ''}
+            <InputNumber
+              size="small"
+              min={0}
+              value={computeBudget.microLamports}
+              onChange={(value) =>
+                setComputeBudget({
+                  ...computeBudget,
+                  microLamports: Number(value) || 0,
+                })
+              }
+            />{' '}
+            µlamports per compute unit
+          </div>
+        )}
+        <div style={{ marginTop: 10 }}>
+          Compute unit limit{' '}
+          <InputNumber
+            size="small"
+            min={0}
+            max={1400000}
+            placeholder="Default"
+            value={computeBudget.computeUnitLimit}
+            onChange={(value) =>
+              setComputeBudget({
+                ...computeBudget,
+                computeUnitLimit: Number(value) || null,
+              })
+            }
+          />
+        </div>
+      </div>
+      {availableTradeSources.length > 1 && (
+        <div style={{ marginTop: 10 }}>
+          Trade history
+          <br />
+          <Radio.Group
+            size="small"
+            value={tradeSource}
+            onChange={(e) => setTradeSource(e.target.value)}
+          >
+            {availableTradeSources.map((source) => (
+              <Radio.Button key={source} value={source}>
+                {TRADE_SOURCE_LABELS[source]}
+              </Radio.Button>
+            ))}
+          </Radio.Group>
+        </div>
+      )}
+      <div style={{ marginTop: 10 }}>
+        <Switch
+          style={{ marginRight: 10 }}
+          disabled={!wallet?.supportsOnlyIfTrusted}
+          checked={autoReconnect}
+          onChange={setAutoReconnect}
+        />{' '}
+        Reconnect on load
+        {!wallet?.supportsOnlyIfTrusted && (
+          <Paragraph style={{ color: 'rgba(255,255,255,0.5)', marginTop: 10 }}>
+            This wallet cannot reconnect without asking
+          </Paragraph>
+        )}
+      </div>
+      {wallet instanceof KeypairWalletAdapter && (
+        <KeypairWalletSettings wallet={wallet} />
+      )}
     </div>
   );
 }
@@ -20,10 +20,8 @@ import { Balances } from '../utils/types';
 import StandaloneTokenAccountsSelect from './StandaloneTokenAccountSelect';
 import LinkAddress from './LinkAddress';
 import { InfoCircleOutlined } from '@ant-design/icons';
-import { useInterval } from '../utils/useInterval';
-import { useLocalStorageState } from '../utils/utils';
-import { AUTO_SETTLE_DISABLED_OVERRIDE } from '../utils/preferences';
 import { useReferrer } from '../utils/referrer';
+import { usePreferences } from '../utils/preferences';
 
 const RowBox = styled(Row)`
   padding-bottom: 20px;
@@ -45,7 +43,14 @@ export default function StandaloneBalancesDisplay() {
   const balances = useBalances();
   const openOrdersAccount = useSelectedOpenOrdersAccount(true);
   const connection = useSendConnection();
-  const { providerUrl, providerName, wallet, connected } = useWallet();
+  const {
+    providerUrl,
+    providerName,
+    wallet,
+    connected,
+    readOnly,
+  } = useWallet();
+  const { simulateTransactions } = usePreferences();
   const [baseOrQuote, setBaseOrQuote] = useState('');
   const baseCurrencyAccount = useSelectedBaseCurrencyAccount();
   const quoteCurrencyAccount = useSelectedQuoteCurrencyAccount();
@@ -54,8 +59,6 @@ export default function StandaloneBalancesDisplay() {
     balances && balances.find((b) => b.coin === baseCurrency);
   const quoteCurrencyBalances =
     balances && balances.find((b) => b.coin === quoteCurrency);
-  const [autoSettleEnabled] = useLocalStorageState('autoSettleEnabled', true);
-  const [lastSettledAt, setLastSettledAt] = useState<number>(0);
   const { usdcRef, usdtRef } = useReferrer();
   async function onSettleFunds() {
     if (!wallet) {
@@ -110,60 +113,18 @@ export default function StandaloneBalancesDisplay() {
         quoteCurrencyAccount,
         usdcRef,
         usdtRef,
+        simulate: simulateTransactions,
       });
     } catch (e) {
       notify({
         message: 'Error settling funds',
         description: e.message,
+        logs: e.logs,
         type: 'error',
       });
     }
   }
 
-  useInterval(() => {
-    const autoSettle = async () => {
-      if (
-        AUTO_SETTLE_DISABLED_OVERRIDE ||
-        !wallet ||
-        !market ||
-        !openOrdersAccount ||
-        !baseCurrencyAccount ||
-        !quoteCurrencyAccount ||
-        !autoSettleEnabled
-      ) {
-        return;
-      }
-      if (
-        !baseCurrencyBalances?.unsettled &&
-        !quoteCurrencyBalances?.unsettled
-      ) {
-        return;
-      }
-      if (Date.now() - lastSettledAt < 15000) {
-        return;
-      }
-      try {
-        console.log('Settling funds...');
-        setLastSettledAt(Date.now());
-        await settleFunds({
-          market,
-          openOrders: openOrdersAccount,
-          connection,
-          wallet,
-          baseCurrencyAccount,
-          quoteCurrencyAccount,
-          usdcRef,
-          usdtRef,
-        });
-      } catch (e) {
-        console.log('Error auto settling funds: ' + e.message);
-        return;
-      }
-      console.log('Finished settling funds.');
-    };
-    connected && wallet?.autoApprove && autoSettleEnabled && autoSettle();
-  }, 1000);
-
   const formattedBalances: [
     string | undefined,
     Balances | undefined,
@@ -240,7 +201,12 @@ export default function StandaloneBalancesDisplay() {
                 </ActionButton>
               </Col>
               <Col style={{ width: 150 }}>
-                <ActionButton block size="large" onClick={onSettleFunds}>
+                <ActionButton
+                  block
+                  size="large"
+                  onClick={onSettleFunds}
+                  disabled={readOnly}
+                >
                   Settle
                 </ActionButton>
               </Col>
@@ -9,12 +9,18 @@ import { useHistory, useLocation } from 'react-router-dom';
 import logo from '../assets/logo.svg';
 import styled from 'styled-components';
 import { useWallet } from '../utils/wallet';
-import { ENDPOINTS, useConnectionConfig } from '../utils/connection';
+import {
+  ENDPOINTS,
+  testEndpoint,
+  useConnectionConfig,
+} from '../utils/connection';
 import Settings from './Settings';
 import CustomClusterEndpointDialog from './CustomClusterEndpointDialog';
+import EndpointHealthIndicator from './EndpointHealthIndicator';
+import NetworkBadge from './NetworkBadge';
+import WatchingBadge from './WatchingBadge';
 import { EndpointInfo } from '../utils/types';
 import { notify } from '../utils/notifications';
-import { Connection } from '@solana/web3.js';
 import WalletConnect from './WalletConnect';
 import AppSearch from './AppSearch';
 import { getTradePageUrl } from '../utils/markets';
@@ -51,11 +57,12 @@ const EXTERNAL_LINKS = {
 };
 
 export default function TopBar() {
-  const { connected, wallet } = useWallet();
+  const { connected, wallet, readOnly } = useWallet();
   const {
     endpoint,
     endpointInfo,
     setEndpoint,
+    sendEndpoints,
     availableEndpoints,
     setCustomEndpoints,
   } = useConnectionConfig();
@@ -86,34 +93,26 @@ export default function TopBar() {
       return;
     }
 
-    const handleError = (e) => {
-      console.log(`Connection to ${info.endpoint} failed: ${e}`);
-      notify({
-        message: `Failed to connect to ${info.endpoint}`,
-        type: 'error',
-      });
-    };
-
-    try {
-      const connection = new Connection(info.endpoint, 'recent');
-      connection
-        .getBlockTime(0)
-        .then(() => {
-          setTestingConnection(true);
-          console.log(`testing connection to ${info.endpoint}`);
-          const newCustomEndpoints = [
-            ...availableEndpoints.filter((e) => e.custom),
-            info,
-          ];
-          setEndpoint(info.endpoint);
-          setCustomEndpoints(newCustomEndpoints);
-        })
-        .catch(handleError);
-    } catch (e) {
-      handleError(e);
-    } finally {
-      setTestingConnection(false);
-    }
+    setTestingConnection(true);
+    console.log(`testing connection to ${info.endpoint}`);
+    testEndpoint(info)
+      .then(() => {
+        const newCustomEndpoints = [
+          ...availableEndpoints.filter((e) => e.custom),
+          info,
+        ];
+        setEndpoint(info.endpoint);
+        setCustomEndpoints(newCustomEndpoints);
+      })
+      .catch((e) => {
+        console.log(`Connection to ${info.endpoint} failed: ${e}`);
+        notify({
+          message: `Failed to connect to ${info.endpoint}`,
+          description: e.message,
+          type: 'error',
+        });
+      })
+      .finally(() => setTestingConnection(false));
   };
 
   const endpointInfoCustom = endpointInfo && endpointInfo.custom;
@@ -180,6 +179,11 @@ export default function TopBar() {
               ORDERS
             </Menu.Item>
           )}
+          {connected && (!searchFocussed || location.pathname === '/activity') && (
+            <Menu.Item key="/activity" style={{ margin: '0 10px' }}>
+              ACTIVITY
+            </Menu.Item>
+          )}
           {connected && (!searchFocussed || location.pathname === '/convert') && (
             <Menu.Item key="/convert" style={{ margin: '0 10px' }}>
               CONVERT
@@ -283,7 +287,16 @@ export default function TopBar() {
             </Col>
             <Col>
               <Popover
-                content={endpoint}
+                content={
+                  <>
+                    <div>{endpoint}</div>
+                    {sendEndpoints
+                      .filter((sendEndpoint) => sendEndpoint !== endpoint)
+                      .map((sendEndpoint) => (
+                        <div key={sendEndpoint}>Send: {sendEndpoint}</div>
+                      ))}
+                  </>
+                }
                 placement="bottomRight"
                 title="URL"
                 trigger="hover"
@@ -291,6 +304,12 @@ export default function TopBar() {
                 <InfoCircleOutlined style={{ color: '#2abdd2' }} />
               </Popover>
             </Col>
+            <Col>
+              <EndpointHealthIndicator />
+            </Col>
+            <Col>
+              <NetworkBadge />
+            </Col>
             <Col>
               <Select
                 onSelect={setEndpoint}
@@ -321,6 +340,11 @@ export default function TopBar() {
             </Popover>
           </div>
         )}
+        {readOnly && (
+          <div>
+            <WatchingBadge />
+          </div>
+        )}
         <div>
           <WalletConnect />
         </div>
@@ -1,11 +1,13 @@
-import { Button, Input, Radio, Slider, Switch } from 'antd';
+import { Button, Input, Radio, Select, Slider, Switch } from 'antd';
 import React, { useEffect, useState } from 'react';
 import styled from 'styled-components';
 import {
+  getMarketOrderPrice,
   useFeeDiscountKeys,
   useLocallyStoredFeeDiscountKey,
   useMarket,
   useMarkPrice,
+  useOrderbook,
   useSelectedBaseCurrencyAccount,
   useSelectedBaseCurrencyBalances,
   useSelectedOpenOrdersAccount,
@@ -17,14 +19,18 @@ import { notify } from '../utils/notifications';
 import {
   floorToDecimal,
   getDecimalCount,
+  percentFormat,
   roundToDecimal,
+  useLocalStorageState,
 } from '../utils/utils';
 import { useSendConnection } from '../utils/connection';
+import { usePreferences } from '../utils/preferences';
 import FloatingElement from './layout/FloatingElement';
 import { getUnixTs, placeOrder } from '../utils/send';
 import { SwitchChangeEventHandler } from 'antd/es/switch';
 import { refreshCache } from '../utils/fetch-loop';
 import tuple from 'immutable-tuple';
+import { PriorityFeeMode } from '../utils/types';
 
 const SellButton = styled(Button)`
   margin: 20px 0px 0px 0px;
@@ -38,6 +44,15 @@ const BuyButton = styled(Button)`
   border-color: #02bf76;
 `;
 
+const MarketOrderInfo = styled.div`
+  padding-top: 8px;
+  font-size: 12px;
+  color: rgba(255, 255, 255, 0.5);
+`;
+
+// Number of price levels walked when estimating a market order's fill
+const MARKET_ORDER_DEPTH = 200;
+
 const sliderMarks = {
   0: '0%',
   25: '25%',
@@ -62,14 +77,21 @@ export default function TradeForm({
   const baseCurrencyAccount = useSelectedBaseCurrencyAccount();
   const quoteCurrencyAccount = useSelectedQuoteCurrencyAccount();
   const openOrdersAccount = useSelectedOpenOrdersAccount(true);
-  const { wallet, connected } = useWallet();
+  const { wallet, connected, publicKey, readOnly } = useWallet();
+  const { simulateTransactions, computeBudget } = usePreferences();
   const sendConnection = useSendConnection();
   const markPrice = useMarkPrice();
+  const [orderbook] = useOrderbook(MARKET_ORDER_DEPTH);
   useFeeDiscountKeys();
   const {
     storedFeeDiscountKey: feeDiscountKey,
   } = useLocallyStoredFeeDiscountKey();
 
+  const [orderType, setOrderType] = useState<'limit' | 'market'>('limit');
+  const [maxSlippage, setMaxSlippage] = useLocalStorageState<number>(
+    'maxSlippage',
+    1,
+  );
   const [postOnly, setPostOnly] = useState(false);
   const [ioc, setIoc] = useState(false);
   const [baseSize, setBaseSize] = useState<number | undefined>(undefined);
@@ -77,6 +99,22 @@ export default function TradeForm({
   const [price, setPrice] = useState<number | undefined>(undefined);
   const [submitting, setSubmitting] = useState(false);
   const [sizeFraction, setSizeFraction] = useState(0);
+  // Overrides the priority fee of the settings for the orders placed here
+  const [
+    priorityFeeMode,
+    setPriorityFeeMode,
+  ] = useState<PriorityFeeMode | null>(null);
+  const [priorityFee, setPriorityFee] = useState<number | undefined>(undefined);
+  const orderComputeBudget = priorityFeeMode
+    ? {
+        ...computeBudget,
+        priorityFeeMode,
+        microLamports:
+          priorityFeeMode === 'fixed' && priorityFee !== undefined
+            ? priorityFee
+            : computeBudget.microLamports,
+      }
+    : undefined;
 
   const availableQuote =
     openOrdersAccount && market
@@ -93,7 +131,16 @@ export default function TradeForm({
   let sizeDecimalCount = minOrderSize && getDecimalCount(minOrderSize);
   let priceDecimalCount = tickSize && getDecimalCount(tickSize);
 
-  const publicKey = wallet?.publicKey;
+  const marketOrderPrice =
+    orderType === 'market' && baseSize
+      ? getMarketOrderPrice(
+          orderbook,
+          side,
+          baseSize,
+          (maxSlippage || 0) / 100,
+          market?.tickSize,
+        )
+      : null;
 
   useEffect(() => {
     setChangeOrderRef && setChangeOrderRef(doChangeOrder);
@@ -191,7 +238,7 @@ export default function TradeForm({
   };
 
   const onSliderChange = (value) => {
-    if (!price && markPrice) {
+    if (orderType === 'limit' && !price && markPrice) {
       let formattedMarkPrice: number | string = priceDecimalCount
         ? markPrice.toFixed(priceDecimalCount)
         : markPrice;
@@ -231,6 +278,9 @@ export default function TradeForm({
   };
 
   async function onSubmit() {
+    if (orderType === 'market') {
+      return onSubmitMarketOrder();
+    }
     if (!price) {
       console.warn('Missing price');
       notify({
@@ -264,8 +314,10 @@ export default function TradeForm({
         baseCurrencyAccount: baseCurrencyAccount?.pubkey,
         quoteCurrencyAccount: quoteCurrencyAccount?.pubkey,
         feeDiscountPubkey: feeDiscountKey,
+        simulate: simulateTransactions,
+        computeBudget: orderComputeBudget,
       });
-      refreshCache(tuple('getTokenAccounts', wallet, connected));
+      refreshCache(tuple('getTokenAccounts', publicKey, connected));
       setPrice(undefined);
       onSetBaseSize(undefined);
     } catch (e) {
@@ -274,6 +326,70 @@ export default function TradeForm({
         message: 'Error placing order',
         // @ts-ignore
         description: e.message,
+        logs: e.logs,
+        type: 'error',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  async function onSubmitMarketOrder() {
+    if (!baseSize) {
+      notify({
+        message: 'Missing size',
+        type: 'error',
+      });
+      return;
+    }
+    if (!marketOrderPrice) {
+      notify({
+        message: 'No liquidity',
+        description: `The orderbook has no ${
+          side === 'buy' ? 'asks' : 'bids'
+        } to fill against`,
+        type: 'error',
+      });
+      return;
+    }
+    if (!marketOrderPrice.withinSlippage) {
+      notify({
+        message: 'Slippage too high',
+        description: `Filling ${baseSize} ${baseCurrency} would move the price by more than ${maxSlippage}%`,
+        type: 'error',
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      if (!wallet) {
+        return null;
+      }
+
+      await placeOrder({
+        side,
+        price: marketOrderPrice.price,
+        size: baseSize,
+        orderType: 'ioc',
+        market,
+        connection: sendConnection,
+        wallet,
+        baseCurrencyAccount: baseCurrencyAccount?.pubkey,
+        quoteCurrencyAccount: quoteCurrencyAccount?.pubkey,
+        feeDiscountPubkey: feeDiscountKey,
+        simulate: simulateTransactions,
+        computeBudget: orderComputeBudget,
+      });
+      refreshCache(tuple('getTokenAccounts', publicKey, connected));
+      onSetBaseSize(undefined);
+    } catch (e) {
+      console.warn(e);
+      notify({
+        message: 'Error placing order',
+        // @ts-ignore
+        description: e.message,
+        logs: e.logs,
         type: 'error',
       });
     } finally {
@@ -281,6 +397,11 @@ export default function TradeForm({
     }
   }
 
+  const canSubmit =
+    !readOnly &&
+    !!baseSize &&
+    (orderType === 'market' ? !!marketOrderPrice : !!price);
+
   return (
     <FloatingElement
       style={{ display: 'flex', flexDirection: 'column', ...style }}
@@ -318,17 +439,41 @@ export default function TradeForm({
             SELL
           </Radio.Button>
         </Radio.Group>
-        <Input
-          style={{ textAlign: 'right', paddingBottom: 8 }}
-          addonBefore={<div style={{ width: '30px' }}>Price</div>}
-          suffix={
-            <span style={{ fontSize: 10, opacity: 0.5 }}>{quoteCurrency}</span>
-          }
-          value={price}
-          type="number"
-          step={tickSize || 1}
-          onChange={(e) => setPrice(parseFloat(e.target.value))}
-        />
+        <Radio.Group
+          onChange={(e) => setOrderType(e.target.value)}
+          value={orderType}
+          size="small"
+          style={{ marginBottom: 8 }}
+        >
+          <Radio.Button value="limit">Limit</Radio.Button>
+          <Radio.Button value="market">Market</Radio.Button>
+        </Radio.Group>
+        {orderType === 'limit' ? (
+          <Input
+            style={{ textAlign: 'right', paddingBottom: 8 }}
+            addonBefore={<div style={{ width: '30px' }}>Price</div>}
+            suffix={
+              <span style={{ fontSize: 10, opacity: 0.5 }}>
+                {quoteCurrency}
+              </span>
+            }
+            value={price}
+            type="number"
+            step={tickSize || 1}
+            onChange={(e) => setPrice(parseFloat(e.target.value))}
+          />
+        ) : (
+          <Input
+            style={{ textAlign: 'right', paddingBottom: 8 }}
+            addonBefore={<div style={{ width: '80px' }}>Max slippage</div>}
+            suffix={<span style={{ fontSize: 10, opacity: 0.5 }}>%</span>}
+            value={maxSlippage}
+            type="number"
+            min={0}
+            step={0.1}
+            onChange={(e) => setMaxSlippage(parseFloat(e.target.value))}
+          />
+        )}
         <Input.Group compact style={{ paddingBottom: 8 }}>
           <Input
             style={{ width: 'calc(50% + 30px)', textAlign: 'right' }}
@@ -360,20 +505,78 @@ export default function TradeForm({
           marks={sliderMarks}
           onChange={onSliderChange}
         />
+        {orderType === 'limit' ? (
+          <div style={{ paddingTop: 18 }}>
+            {'POST '}
+            <Switch
+              checked={postOnly}
+              onChange={postOnChange}
+              style={{ marginRight: 40 }}
+            />
+            {'IOC '}
+            <Switch checked={ioc} onChange={iocOnChange} />
+          </div>
+        ) : (
+          marketOrderPrice && (
+            <MarketOrderInfo>
+              <div>
+                Expected price:{' '}
+                {roundToDecimal(marketOrderPrice.avgPrice, priceDecimalCount)}{' '}
+                {quoteCurrency}
+              </div>
+              <div
+                style={{
+                  color: marketOrderPrice.withinSlippage
+                    ? undefined
+                    : '#F23B69',
+                }}
+              >
+                Slippage: {percentFormat.format(marketOrderPrice.slippage)}
+              </div>
+              {!marketOrderPrice.fullyFillable && (
+                <div style={{ color: '#F23B69' }}>
+                  Only {marketOrderPrice.filledSize} {baseCurrency} available in
+                  the orderbook
+                </div>
+              )}
+            </MarketOrderInfo>
+          )
+        )}
         <div style={{ paddingTop: 18 }}>
-          {'POST '}
-          <Switch
-            checked={postOnly}
-            onChange={postOnChange}
-            style={{ marginRight: 40 }}
-          />
-          {'IOC '}
-          <Switch checked={ioc} onChange={iocOnChange} />
+          {'PRIORITY FEE '}
+          <Select
+            size="small"
+            style={{ width: 100 }}
+            value={priorityFeeMode || 'default'}
+            onChange={(value) =>
+              setPriorityFeeMode(
+                value === 'default' ? null : (value as PriorityFeeMode),
+              )
+            }
+          >
+            <Select.Option value="default">Default</Select.Option>
+            <Select.Option value="off">Off</Select.Option>
+            <Select.Option value="auto">Auto</Select.Option>
+            <Select.Option value="fixed">Fixed</Select.Option>
+          </Select>
+          {priorityFeeMode === 'fixed' && (
+            <Input
+              size="small"
+              style={{ width: 'calc(100% - 210px)', marginLeft: 10 }}
+              suffix={
+                <span style={{ fontSize: 10, opacity: 0.5 }}>µlamports/CU</span>
+              }
+              value={priorityFee}
+              type="number"
+              min={0}
+              onChange={(e) => setPriorityFee(parseInt(e.target.value) || 0)}
+            />
+          )}
         </div>
       </div>
       {side === 'buy' ? (
         <BuyButton
-          disabled={!price || !baseSize}
+          disabled={!canSubmit}
           onClick={onSubmit}
           block
           type="primary"
@@ -384,7 +587,7 @@ export default function TradeForm({
         </BuyButton>
       ) : (
         <SellButton
-          disabled={!price || !baseSize}
+          disabled={!canSubmit}
           onClick={onSubmit}
           block
           type="primary"
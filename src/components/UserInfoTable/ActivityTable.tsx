@@ -0,0 +1,121 @@
+import React from 'react';
+import { Button, Col, Row, Tag, Tooltip } from 'antd';
+import DataTable from '../layout/DataTable';
+import Link from '../Link';
+import { useTransactionLog } from '../../utils/transactionLog';
+import { useMarketInfos } from '../../utils/markets';
+import { useExplorerUrl } from '../../utils/connection';
+import {
+  TransactionKind,
+  TransactionLogEntry,
+  TransactionStatus,
+} from '../../utils/types';
+
+const KIND_LABELS: { [kind in TransactionKind]: string } = {
+  placeOrder: 'Place order',
+  cancel: 'Cancel',
+  settle: 'Settle',
+  listMarket: 'List market',
+  other: 'Other',
+};
+
+const STATUS_COLORS: { [status in TransactionStatus]: string } = {
+  pending: '#F2A93B',
+  confirmed: '#41C77A',
+  failed: '#F23B69',
+  expired: '#8C8C8C',
+};
+
+export default function ActivityTable({
+  pageSize = 10,
+}: {
+  pageSize?: number;
+}) {
+  const [entries, clearEntries] = useTransactionLog();
+  const marketInfos = useMarketInfos();
+  const getExplorerUrl = useExplorerUrl();
+  const marketAddressesToNames = Object.fromEntries(
+    marketInfos.map((info) => [info.address.toBase58(), info.name]),
+  );
+
+  const columns = [
+    {
+      title: 'Time',
+      dataIndex: 'sentAt',
+      key: 'sentAt',
+      render: (sentAt) => new Date(sentAt).toLocaleString(),
+    },
+    {
+      title: 'Type',
+      dataIndex: 'kind',
+      key: 'kind',
+      render: (kind, entry: TransactionLogEntry) =>
+        KIND_LABELS[kind] +
+        (entry.createsTokenAccount ? ' + create token account' : ''),
+    },
+    {
+      title: 'Market',
+      dataIndex: 'market',
+      key: 'market',
+      render: (market) =>
+        market ? marketAddressesToNames[market] || market.slice(0, 8) : '',
+    },
+    {
+      title: 'Description',
+      dataIndex: 'description',
+      key: 'description',
+    },
+    {
+      title: 'Status',
+      dataIndex: 'status',
+      key: 'status',
+      render: (status, entry: TransactionLogEntry) => (
+        <Tooltip title={entry.error}>
+          <Tag color={STATUS_COLORS[status]} style={{ fontWeight: 700 }}>
+            {status.charAt(0).toUpperCase() + status.slice(1)}
+          </Tag>
+        </Tooltip>
+      ),
+    },
+    {
+      title: 'Latency',
+      dataIndex: 'latency',
+      key: 'latency',
+      render: (latency) =>
+        latency !== undefined ? `${latency.toFixed(1)}s` : '',
+    },
+    {
+      title: 'Transaction',
+      dataIndex: 'txid',
+      key: 'txid',
+      render: (txid) => (
+        <Link external to={getExplorerUrl('tx', txid)}>
+          {txid.slice(0, 8)}...{txid.slice(txid.length - 8)}
+        </Link>
+      ),
+    },
+  ];
+
+  const dataSource = entries.map((entry) => ({ ...entry, key: entry.txid }));
+
+  return (
+    <Row>
+      <Col span={24}>
+        {entries.length > 0 && (
+          <Row justify="end" style={{ marginBottom: 10 }}>
+            <Button size="small" onClick={clearEntries}>
+              Clear
+            </Button>
+          </Row>
+        )}
+        <DataTable
+          dataSource={dataSource}
+          columns={columns}
+          pagination={true}
+          pageSize={pageSize}
+          emptyLabel="No transactions"
+        />
+      </Col>
+    </Row>
+  );
+}
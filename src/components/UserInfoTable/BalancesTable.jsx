@@ -10,6 +10,7 @@ import { useWallet } from '../../utils/wallet';
 import { settleFunds } from '../../utils/send';
 import { notify } from '../../utils/notifications';
 import { useReferrer } from '../../utils/referrer';
+import { usePreferences } from '../../utils/preferences';
 
 export default function BalancesTable({
   balances,
@@ -19,7 +20,8 @@ export default function BalancesTable({
 }) {
   const [accounts] = useTokenAccounts();
   const connection = useSendConnection();
-  const { wallet } = useWallet();
+  const { wallet, readOnly } = useWallet();
+  const { simulateTransactions } = usePreferences();
   const { usdcRef, usdtRef } = useReferrer();
 
   async function onSettleFunds(market, openOrders) {
@@ -39,11 +41,13 @@ export default function BalancesTable({
         ),
         usdcRef,
         usdtRef,
+        simulate: simulateTransactions,
       });
     } catch (e) {
       notify({
         message: 'Error settling funds',
         description: e.message,
+        logs: e.logs,
         type: 'error',
       });
       return;
@@ -89,6 +93,7 @@ export default function BalancesTable({
             ghost
             style={{ marginRight: 12 }}
             onClick={() => onSettleFunds(market, openOrders)}
+            disabled={readOnly}
           >
             Settle {marketName}
           </Button>
@@ -2,8 +2,8 @@ import React, { useState } from 'react';
 import DataTable from '../layout/DataTable';
 
 import styled from 'styled-components';
-import { Button, Col, Row, Tag } from 'antd';
-import { cancelOrder } from '../../utils/send';
+import { Button, Col, Row, Space, Tag } from 'antd';
+import { cancelOrder, cancelOrdersForMarkets } from '../../utils/send';
 import { useWallet } from '../../utils/wallet';
 import { useSendConnection } from '../../utils/connection';
 import { notify } from '../../utils/notifications';
@@ -28,10 +28,12 @@ export default function OpenOrderTable({
   loading?: boolean;
   marketFilter?: boolean;
 }) {
-  let { wallet } = useWallet();
+  let { wallet, readOnly } = useWallet();
   let connection = useSendConnection();
 
   const [cancelId, setCancelId] = useState(null);
+  const [bulkCancelling, setBulkCancelling] = useState<string | null>(null);
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
 
   async function cancel(order) {
     setCancelId(order?.orderId);
@@ -50,6 +52,7 @@ export default function OpenOrderTable({
       notify({
         message: 'Error cancelling order',
         description: e.message,
+        logs: e.logs,
         type: 'error',
       });
       return;
@@ -59,6 +62,41 @@ export default function OpenOrderTable({
     onCancelSuccess && onCancelSuccess();
   }
 
+  async function cancelMany(
+    orders: OrderWithMarketAndMarketName[],
+    label: string,
+  ) {
+    orders = orders.filter((order) => order.market);
+    if (!wallet || orders.length === 0) {
+      return;
+    }
+    setBulkCancelling(label);
+    try {
+      const results = await cancelOrdersForMarkets({
+        orders,
+        connection,
+        wallet,
+      });
+      const cancelledKeys = results
+        .filter(({ error }) => !error)
+        .map(({ order }) => getOrderKey(order));
+      setSelectedKeys((keys) =>
+        keys.filter((key) => !cancelledKeys.includes(key)),
+      );
+    } catch (e) {
+      notify({
+        message: 'Error cancelling orders',
+        description: e.message,
+        logs: e.logs,
+        type: 'error',
+      });
+      return;
+    } finally {
+      setBulkCancelling(null);
+    }
+    onCancelSuccess && onCancelSuccess();
+  }
+
   const marketFilters = [
     ...new Set((openOrders || []).map((orderInfos) => orderInfos.marketName)),
   ].map((marketName) => {
@@ -117,6 +155,7 @@ export default function OpenOrderTable({
           <CancelButton
             icon={<DeleteOutlined />}
             onClick={() => cancel(order)}
+            disabled={readOnly}
             loading={cancelId + '' === order?.orderId + ''}
           >
             Cancel
@@ -125,13 +164,52 @@ export default function OpenOrderTable({
       ),
     },
   ];
-  const dataSource = (openOrders || []).map((order, orderIndex) => ({
+  const dataSource = (openOrders || []).map((order) => ({
     ...order,
-    key: orderIndex,
+    key: getOrderKey(order),
   }));
+  const bids = dataSource.filter((order) => order.side === 'buy');
+  const asks = dataSource.filter((order) => order.side === 'sell');
+  const selected = dataSource.filter((order) =>
+    selectedKeys.includes(order.key),
+  );
 
   return (
     <Row>
+      {dataSource.length > 0 && (
+        <Col span={24} style={{ marginBottom: 10 }}>
+          <Space>
+            <CancelButton
+              onClick={() => cancelMany(dataSource, 'all')}
+              loading={bulkCancelling === 'all'}
+              disabled={readOnly || !!bulkCancelling}
+            >
+              Cancel all
+            </CancelButton>
+            <CancelButton
+              onClick={() => cancelMany(bids, 'bids')}
+              loading={bulkCancelling === 'bids'}
+              disabled={readOnly || !!bulkCancelling || bids.length === 0}
+            >
+              Cancel all bids
+            </CancelButton>
+            <CancelButton
+              onClick={() => cancelMany(asks, 'asks')}
+              loading={bulkCancelling === 'asks'}
+              disabled={readOnly || !!bulkCancelling || asks.length === 0}
+            >
+              Cancel all asks
+            </CancelButton>
+            <CancelButton
+              onClick={() => cancelMany(selected, 'selected')}
+              loading={bulkCancelling === 'selected'}
+              disabled={readOnly || !!bulkCancelling || selected.length === 0}
+            >
+              Cancel selected ({selected.length})
+            </CancelButton>
+          </Space>
+        </Col>
+      )}
       <Col span={24}>
         <DataTable
           emptyLabel="No open orders"
@@ -140,8 +218,16 @@ export default function OpenOrderTable({
           pagination={true}
           pageSize={pageSize ? pageSize : 5}
           loading={loading !== undefined && loading}
+          rowSelection={{
+            selectedRowKeys: selectedKeys,
+            onChange: (keys) => setSelectedKeys(keys),
+          }}
         />
       </Col>
     </Row>
   );
 }
+
+function getOrderKey(order: OrderWithMarketAndMarketName) {
+  return `${order.openOrdersAddress?.toBase58()}-${order.orderId}`;
+}
@@ -1,12 +1,13 @@
 import React, { useState } from 'react';
 import DataTable from '../layout/DataTable';
 import { Button, Row } from 'antd';
-// import { settleAllFunds } from '../../utils/send';
+import { settleAllFunds, SettleFundsResult } from '../../utils/send';
 import { notify } from '../../utils/notifications';
-import { useConnection } from '../../utils/connection';
+import { useConnection, useExplorerUrl } from '../../utils/connection';
 import { useWallet } from '../../utils/wallet';
 import {
   useAllMarkets,
+  useAllOpenOrdersAccounts,
   useSelectedTokenAccounts,
   useTokenAccounts,
 } from '../../utils/markets';
@@ -14,6 +15,41 @@ import StandaloneTokenAccountsSelect from '../StandaloneTokenAccountSelect';
 import { abbreviateAddress } from '../../utils/utils';
 import { PublicKey } from '@solana/web3.js';
 
+// Each transaction already reports itself, this lists the markets settled
+// and failed when there are several or any failed
+function reportSettleResults(
+  results: SettleFundsResult[],
+  marketNames: { [address: string]: string },
+) {
+  const failed = results.filter(({ error }) => error);
+  if (results.length < 2 && failed.length === 0) {
+    return;
+  }
+  const settled = results.filter(({ error }) => !error);
+  const getName = ({ market }: SettleFundsResult) =>
+    marketNames[market.address.toBase58()] || abbreviateAddress(market.address);
+  notify({
+    message:
+      failed.length > 0
+        ? `Settled ${settled.length} of ${results.length} markets`
+        : `Settled ${results.length} markets`,
+    description: (
+      <>
+        {settled.length > 0 && (
+          <div>Settled: {settled.map(getName).join(', ')}</div>
+        )}
+        {failed.map((result) => (
+          <div key={result.market.address.toBase58()}>
+            {getName(result)} failed: {result.error}
+          </div>
+        ))}
+      </>
+    ),
+    logs: failed[0]?.logs,
+    type: failed.length > 0 ? 'error' : 'success',
+  });
+}
+
 export default function WalletBalancesTable({
   walletBalances,
 }: {
@@ -26,10 +62,15 @@ export default function WalletBalancesTable({
   }[];
 }) {
   const connection = useConnection();
-  const { wallet, connected } = useWallet();
+  const getExplorerUrl = useExplorerUrl();
+  const { wallet, connected, readOnly } = useWallet();
   const [selectedTokenAccounts] = useSelectedTokenAccounts();
   const [tokenAccounts, tokenAccountsConnected] = useTokenAccounts();
   const [allMarkets, allMarketsConnected] = useAllMarkets();
+  const [
+    openOrdersAccounts,
+    openOrdersAccountsConnected,
+  ] = useAllOpenOrdersAccounts();
   const [settlingFunds, setSettlingFunds] = useState(false);
 
   async function onSettleFunds() {
@@ -60,17 +101,34 @@ export default function WalletBalancesTable({
         });
         return;
       }
-      // await settleAllFunds({
-      //   connection,
-      //   tokenAccounts,
-      //   selectedTokenAccounts,
-      //   wallet,
-      //   markets: allMarkets.map((marketInfo) => marketInfo.market),
-      // });
+      if (!openOrdersAccounts || !openOrdersAccountsConnected) {
+        notify({
+          message: 'Error settling funds',
+          description: 'Open orders accounts not connected',
+          type: 'error',
+        });
+        return;
+      }
+      const results = await settleAllFunds({
+        connection,
+        tokenAccounts,
+        selectedTokenAccounts,
+        wallet,
+        markets: allMarkets.map((marketInfo) => marketInfo.market),
+        openOrdersAccounts,
+      });
+      const marketNames = Object.fromEntries(
+        allMarkets.map(({ market, marketName }) => [
+          market.address.toBase58(),
+          marketName,
+        ]),
+      );
+      reportSettleResults(results, marketNames);
     } catch (e) {
       notify({
         message: 'Error settling funds',
         description: e.message,
+        logs: e.logs,
         type: 'error',
       });
     } finally {
@@ -86,7 +144,7 @@ export default function WalletBalancesTable({
       render: (walletBalance) => (
         <Row align="middle">
           <a
-            href={`https://solscan.io/address/${walletBalance.mint}`}
+            href={getExplorerUrl('address', walletBalance.mint)}
             target={'_blank'}
             rel="noopener noreferrer"
           >
@@ -139,7 +197,11 @@ export default function WalletBalancesTable({
         pagination={false}
       />
       {connected && (
-        <Button onClick={onSettleFunds} loading={settlingFunds}>
+        <Button
+          onClick={onSettleFunds}
+          loading={settlingFunds}
+          disabled={readOnly}
+        >
           Settle all funds
         </Button>
       )}
@@ -5,16 +5,25 @@ import { Tabs, Typography } from 'antd';
 import FillsTable from './FillsTable';
 import FloatingElement from '../layout/FloatingElement';
 import FeesTable from './FeesTable';
+import ActivityTable from './ActivityTable';
 import { useOpenOrders, useBalances, useMarket } from '../../utils/markets';
+import { useWallet } from '../../utils/wallet';
 
 const { Paragraph } = Typography;
 const { TabPane } = Tabs;
 
 export default function Index() {
   const { market } = useMarket();
+  const { wallet, readOnly } = useWallet();
   return (
     <FloatingElement style={{ flex: 1, paddingTop: 20 }}>
       <Typography>
+        {readOnly && (
+          <Paragraph style={{ color: '#F2A93B' }}>
+            Watching {wallet.publicKey.toBase58()}, orders cannot be placed,
+            cancelled or settled.
+          </Paragraph>
+        )}
         <Paragraph style={{ color: 'rgba(255,255,255,0.5)' }}>
           Make sure to go to Balances and click Settle to send out your funds.
         </Paragraph>
@@ -34,6 +43,9 @@ export default function Index() {
         <TabPane tab="Balances" key="balances">
           <BalancesTab />
         </TabPane>
+        <TabPane tab="Activity" key="activity">
+          <ActivityTable pageSize={5} />
+        </TabPane>
         {market && market.supportsSrmFeeDiscounts ? (
           <TabPane tab="Fee discounts" key="fees">
             <FeesTable />
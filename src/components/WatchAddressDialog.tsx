@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Input, Modal, Typography } from 'antd';
+import { useConnection } from '../utils/connection';
+import { notify } from '../utils/notifications';
+import { resolveAddress } from '../utils/referrer';
+import { getWatchAddress, setWatchAddress } from '../wallet-adapters';
+
+const { Text } = Typography;
+
+export default function WatchAddressDialog({
+  visible,
+  onConnect,
+  onClose,
+}: {
+  visible: boolean;
+  onConnect: () => void;
+  onClose: () => void;
+}) {
+  const connection = useConnection();
+  const [input, setInput] = useState(getWatchAddress()?.toBase58() || '');
+  const [resolving, setResolving] = useState(false);
+
+  const connect = async () => {
+    setResolving(true);
+    try {
+      setWatchAddress(await resolveAddress(connection, input));
+      onConnect();
+    } catch (e) {
+      console.warn(e);
+      notify({
+        message: 'Invalid address',
+        description: input.trim().endsWith('.sol')
+          ? `Could not find the owner of ${input.trim()}`
+          : 'Enter a public key or a .sol domain',
+        type: 'error',
+      });
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  return (
+    <Modal
+      title="Watch address"
+      visible={visible}
+      okText="Watch"
+      okButtonProps={{ disabled: !input.trim(), loading: resolving }}
+      onOk={connect}
+      onCancel={onClose}
+      width={520}
+    >
+      <Input
+        placeholder="Public key or .sol domain"
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        onPressEnter={connect}
+        style={{ marginBottom: 12 }}
+      />
+      <Text type="secondary">
+        Shows the orders, balances and fills of the address. Nothing can be
+        signed while watching.
+      </Text>
+    </Modal>
+  );
+}
@@ -0,0 +1,18 @@
+import React from 'react';
+import { Tag, Tooltip } from 'antd';
+import { EyeOutlined } from '@ant-design/icons';
+import { useWallet } from '../utils/wallet';
+
+export default function WatchingBadge() {
+  const { wallet } = useWallet();
+
+  return (
+    <Tooltip
+      title={`Watching ${wallet?.publicKey.toBase58()}, transactions cannot be signed`}
+    >
+      <Tag color="#F2A93B" icon={<EyeOutlined />} style={{ fontWeight: 700 }}>
+        Watching
+      </Tag>
+    </Tooltip>
+  );
+}
@@ -8,6 +8,7 @@ export default function DataTable({
   pagination = false,
   loading = false,
   pageSize = 10,
+  rowSelection = undefined,
 }) {
   const customizeRenderEmpty = () => (
     <div
@@ -29,6 +30,7 @@ export default function DataTable({
         columns={columns}
         pagination={pagination ? { pagination: true, pageSize } : false}
         loading={loading}
+        rowSelection={rowSelection}
       />
     </ConfigProvider>
   );
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Row } from 'antd';
+import FloatingElement from '../components/layout/FloatingElement';
+import ActivityTable from '../components/UserInfoTable/ActivityTable';
+import WalletConnect from '../components/WalletConnect';
+import { useWallet } from '../utils/wallet';
+
+export default function ActivityPage() {
+  const { connected } = useWallet();
+
+  if (!connected) {
+    return (
+      <Row
+        justify="center"
+        style={{
+          marginTop: '10%',
+        }}
+      >
+        <WalletConnect />
+      </Row>
+    );
+  }
+
+  return (
+    <FloatingElement style={{ flex: 1, paddingTop: 10 }}>
+      <ActivityTable pageSize={25} />
+    </FloatingElement>
+  );
+}
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { Button, Form, Input, InputNumber, Tooltip, Typography } from 'antd';
+import { DEX_ID } from '@project-serum/serum';
+import { useHistory } from 'react-router-dom';
+import { useMintInput } from '../components/useMintInput';
+import { useWallet } from '../utils/wallet';
+import { useSendConnection } from '../utils/connection';
+import { getTradePageUrl, useCustomMarkets } from '../utils/markets';
+import { useMintToTickers } from '../utils/tokens';
+import { listMarket } from '../utils/send';
+import { notify } from '../utils/notifications';
+
+const { Text, Title } = Typography;
+
+const Wrapper = styled.div`
+  max-width: 640px;
+  margin-left: auto;
+  margin-right: auto;
+  margin-top: 24px;
+  margin-bottom: 24px;
+`;
+
+export default function ListNewMarketPage() {
+  const connection = useSendConnection();
+  const { wallet, connected, readOnly } = useWallet();
+  const history = useHistory();
+  const { setCustomMarkets } = useCustomMarkets();
+  const mintToTickers = useMintToTickers();
+  const [baseMintInput, baseMintInfo] = useMintInput(
+    'baseMint',
+    <Text>
+      Base Token Mint Address{' '}
+      <Text type="secondary">(e.g. BTC solana address: 9n4n...PdEf)</Text>
+    </Text>,
+    'The base token is the token being bought and sold.',
+  );
+  const [quoteMintInput, quoteMintInfo] = useMintInput(
+    'quoteMint',
+    <Text>
+      Quote Token Mint Address{' '}
+      <Text type="secondary">(e.g. USDT solana address: BQcd...8dK4)</Text>
+    </Text>,
+    'The quote token is the token used to price the base token.',
+  );
+  const [minOrderSize, setMinOrderSize] = useState<number | null>(null);
+  const [tickSize, setTickSize] = useState<number | null>(null);
+  const [marketName, setMarketName] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const defaultMarketName =
+    baseMintInfo &&
+    quoteMintInfo &&
+    mintToTickers[baseMintInfo.address.toBase58()] &&
+    mintToTickers[quoteMintInfo.address.toBase58()]
+      ? `${mintToTickers[baseMintInfo.address.toBase58()]}/${
+          mintToTickers[quoteMintInfo.address.toBase58()]
+        }`
+      : '';
+  const name = marketName || defaultMarketName;
+
+  const canSubmit =
+    connected &&
+    !readOnly &&
+    !!baseMintInfo &&
+    !!quoteMintInfo &&
+    !baseMintInfo.address.equals(quoteMintInfo.address) &&
+    !!minOrderSize &&
+    minOrderSize > 0 &&
+    !!tickSize &&
+    tickSize > 0 &&
+    !!name;
+
+  async function onSubmit() {
+    if (!canSubmit || !wallet || !baseMintInfo || !quoteMintInfo) {
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const marketAddress = await listMarket({
+        connection,
+        wallet,
+        baseMint: baseMintInfo.address,
+        quoteMint: quoteMintInfo.address,
+        baseMintDecimals: baseMintInfo.decimals,
+        quoteMintDecimals: quoteMintInfo.decimals,
+        minOrderSize: minOrderSize as number,
+        tickSize: tickSize as number,
+      });
+      // Listing takes a while, markets added meanwhile are kept
+      setCustomMarkets((customMarkets) => [
+        ...customMarkets,
+        {
+          address: marketAddress.toBase58(),
+          name,
+          programId: DEX_ID.toBase58(),
+        },
+      ]);
+      notify({
+        message: 'Market created',
+        description: `${name} was added to your custom markets`,
+        type: 'success',
+      });
+      history.push(getTradePageUrl(marketAddress.toBase58()));
+    } catch (e) {
+      console.warn(e);
+      notify({
+        message: 'Error listing new market',
+        description: e.message,
+        logs: e.logs,
+        type: 'error',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Wrapper>
+      <Title level={3}>List New Market</Title>
+      <Form
+        labelCol={{ span: 24 }}
+        wrapperCol={{ span: 24 }}
+        layout="vertical"
+        onFinish={onSubmit}
+      >
+        {baseMintInput}
+        {quoteMintInput}
+        <Form.Item
+          label={
+            <Tooltip title="Smallest allowed order size, in base tokens.">
+              Minimum Order Size
+            </Tooltip>
+          }
+          name="minOrderSize"
+        >
+          <InputNumber
+            style={{ width: '100%' }}
+            min={0}
+            value={minOrderSize || undefined}
+            onChange={(value) => setMinOrderSize(Number(value) || null)}
+          />
+        </Form.Item>
+        <Form.Item
+          label={
+            <Tooltip title="Smallest allowed price increment, in quote tokens.">
+              Tick Size
+            </Tooltip>
+          }
+          name="tickSize"
+        >
+          <InputNumber
+            style={{ width: '100%' }}
+            min={0}
+            value={tickSize || undefined}
+            onChange={(value) => setTickSize(Number(value) || null)}
+          />
+        </Form.Item>
+        <Form.Item
+          label={
+            <Tooltip title="Name shown in the market selector.">
+              Market Name
+            </Tooltip>
+          }
+          name="marketName"
+        >
+          <Input
+            placeholder={defaultMarketName || 'BASE/QUOTE'}
+            value={marketName}
+            onChange={(e) => setMarketName(e.target.value)}
+          />
+        </Form.Item>
+        <Form.Item>
+          <Button
+            htmlType="submit"
+            type="primary"
+            disabled={!canSubmit}
+            loading={submitting}
+          >
+            {connected ? 'Submit' : 'Not connected to wallet'}
+          </Button>
+        </Form.Item>
+      </Form>
+    </Wrapper>
+  );
+}
@@ -6,7 +6,7 @@ import {
   useMarketInfos,
 } from '../utils/markets';
 import OpenOrderTable from '../components/UserInfoTable/OpenOrderTable';
-import { Button, Row } from 'antd';
+import { Row } from 'antd';
 import { OrderWithMarketAndMarketName } from '../utils/types';
 import { useWallet } from '../utils/wallet';
 import WalletConnect from '../components/WalletConnect';
@@ -53,9 +53,6 @@ export default function OpenOrdersPage() {
 
   return (
     <FloatingElement style={{ flex: 1, paddingTop: 10 }}>
-      <Button onClick={refreshOpenOrders} loading={!loaded}>
-        Refresh
-      </Button>
       <OpenOrderTable
         openOrders={dataSource}
         pageSize={25}
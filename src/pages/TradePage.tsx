@@ -9,6 +9,7 @@ import {
   getTradePageUrl,
   MarketProvider,
   useMarket,
+  useMarketInfos,
   useMarketsList,
 } from '../utils/markets';
 import TradeForm from '../components/TradeForm';
@@ -18,8 +19,10 @@ import {
   DeleteOutlined,
   InfoCircleOutlined,
   PlusCircleOutlined,
+  SwapOutlined,
 } from '@ant-design/icons';
 import CustomMarketDialog from '../components/CustomMarketDialog';
+import CustomMarketsTransferDialog from '../components/CustomMarketsTransferDialog';
 import { notify } from '../utils/notifications';
 import { useHistory, useParams } from 'react-router-dom';
 import { nanoid } from 'nanoid';
@@ -44,11 +47,6 @@ const Wrapper = styled.div`
 
 export default function TradePage() {
   const { marketAddress } = useParams();
-  useEffect(() => {
-    if (marketAddress) {
-      localStorage.setItem('marketAddress', JSON.stringify(marketAddress));
-    }
-  }, [marketAddress]);
   const history = useHistory();
   function setMarketAddress(address) {
     history.push(getTradePageUrl(address));
@@ -73,8 +71,10 @@ function TradePageInner() {
     setMarketAddress,
   } = useMarket();
   const markets = useMarketsList();
+  const marketInfos = useMarketInfos();
   const [handleDeprecated, setHandleDeprecated] = useState(false);
   const [addMarketVisible, setAddMarketVisible] = useState(false);
+  const [transferMarketsVisible, setTransferMarketsVisible] = useState(false);
   const [dimensions, setDimensions] = useState({
     height: window.innerHeight,
     width: window.innerWidth,
@@ -125,7 +125,7 @@ function TradePageInner() {
   })();
 
   const onAddCustomMarket = (customMarket) => {
-    const marketInfo = getMarketInfos(customMarkets).some(
+    const marketInfo = marketInfos.some(
       (m) => m.address.toBase58() === customMarket.address,
     );
     if (marketInfo) {
@@ -145,6 +145,23 @@ function TradePageInner() {
     setCustomMarkets(newCustomMarkets);
   };
 
+  const onImportCustomMarkets = (importedMarkets) => {
+    const newMarkets = importedMarkets.filter(
+      (customMarket) =>
+        !marketInfos.some((m) => m.address.toBase58() === customMarket.address),
+    );
+    setCustomMarkets([...customMarkets, ...newMarkets]);
+    notify({
+      message: `Imported ${newMarkets.length} custom market${
+        newMarkets.length === 1 ? '' : 's'
+      }`,
+      description:
+        newMarkets.length < importedMarkets.length
+          ? 'Markets that already exist were skipped'
+          : undefined,
+    });
+  };
+
   return (
     <>
       <CustomMarketDialog
@@ -152,6 +169,12 @@ function TradePageInner() {
         onClose={() => setAddMarketVisible(false)}
         onAddCustomMarket={onAddCustomMarket}
       />
+      <CustomMarketsTransferDialog
+        visible={transferMarketsVisible}
+        customMarkets={customMarkets}
+        onImport={onImportCustomMarkets}
+        onClose={() => setTransferMarketsVisible(false)}
+      />
       <Wrapper>
         <Row
           align="middle"
@@ -185,6 +208,13 @@ function TradePageInner() {
               onClick={() => setAddMarketVisible(true)}
             />
           </Col>
+          <Col>
+            <SwapOutlined
+              style={{ color: '#2abdd2' }}
+              title="Import / export custom markets"
+              onClick={() => setTransferMarketsVisible(true)}
+            />
+          </Col>
         </Row>
         {component}
       </Wrapper>
@@ -209,7 +239,7 @@ function MarketSelector({
   const extractBase = (a) => a.split('/')[0];
   const extractQuote = (a) => a.split('/')[1];
 
-  const selectedMarket = getMarketInfos(customMarkets)
+  const selectedMarket = getMarketInfos(customMarkets, markets)
     .find(
       (proposedMarket) =>
         market?.address && proposedMarket.address.equals(market.address),
@@ -3,6 +3,8 @@ import TradePage from './pages/TradePage';
 import OpenOrdersPage from './pages/OpenOrdersPage';
 import React from 'react';
 import BalancesPage from './pages/BalancesPage';
+import ListNewMarketPage from './pages/ListNewMarketPage';
+import ActivityPage from './pages/ActivityPage';
 import BasicLayout from './components/BasicLayout';
 import { getTradePageUrl } from './utils/markets';
 
@@ -15,11 +17,17 @@ export function Routes() {
             <Route exact path="/">
               <Redirect to={getTradePageUrl()} />
             </Route>
-            <Route exact path="/market/:marketAddress">
+            <Route exact path="/market/:marketAddress?">
               <TradePage />
             </Route>
             <Route exact path="/orders" component={OpenOrdersPage} />
             <Route exact path="/balances" component={BalancesPage} />
+            <Route exact path="/activity" component={ActivityPage} />
+            <Route
+              exact
+              path="/list-new-market"
+              component={ListNewMarketPage}
+            />
           </Switch>
         </BasicLayout>
       </HashRouter>
@@ -0,0 +1,177 @@
+import { useEffect, useRef, useState } from 'react';
+import { OpenOrders } from '@project-serum/serum';
+import BN from 'bn.js';
+import { useConnection, useSendConnection } from './connection';
+import { useWallet } from './wallet';
+import {
+  useAllMarkets,
+  useAllOpenOrdersAccounts,
+  useSelectedTokenAccounts,
+  useTokenAccounts,
+} from './markets';
+import { useMintInfos } from './tokens';
+import { settleAllFunds } from './send';
+import { useInterval } from './useInterval';
+import { divideBnToNumber, getTokenMultiplierFromDecimals } from './utils';
+import { AutoSettleStatus } from './types';
+
+const AUTO_SETTLE_TICK_INTERVAL = 5000;
+// Minimum time between two settle attempts
+const MIN_AUTO_SETTLE_INTERVAL = 15000;
+// Cap for the exponential backoff applied after failed attempts
+const MAX_AUTO_SETTLE_BACKOFF = 5 * 60 * 1000;
+
+/**
+ * Settles unsettled balances across all markets while `enabled` is set and
+ * the wallet auto-approves. Open orders accounts are kept current through
+ * account subscriptions, and a market is settled once its free base or quote
+ * balance is above `threshold` (in token units).
+ */
+export function useAutoSettle({
+  enabled,
+  threshold,
+}: {
+  enabled: boolean;
+  threshold: number;
+}): AutoSettleStatus {
+  const connection = useConnection();
+  const sendConnection = useSendConnection();
+  const { connected, wallet } = useWallet();
+  const [allMarkets] = useAllMarkets();
+  const [openOrdersAccounts] = useAllOpenOrdersAccounts();
+  const [tokenAccounts] = useTokenAccounts();
+  const [selectedTokenAccounts] = useSelectedTokenAccounts();
+  const [mintInfos] = useMintInfos();
+  const [liveAccounts, setLiveAccounts] = useState<Map<string, OpenOrders>>(
+    new Map(),
+  );
+  const [lastRun, setLastRun] = useState<number | null>(null);
+  const [lastError, setLastError] = useState<string | null>(null);
+  const [settling, setSettling] = useState(false);
+  const failures = useRef(0);
+  const nextRunAt = useRef(0);
+
+  const active = enabled && connected && !!wallet?.autoApprove;
+
+  useEffect(() => {
+    setLiveAccounts(
+      new Map(
+        (openOrdersAccounts || []).map((account) => [
+          account.address.toBase58(),
+          account,
+        ]),
+      ),
+    );
+  }, [openOrdersAccounts]);
+
+  useEffect(() => {
+    if (!active || !wallet || !openOrdersAccounts) {
+      return;
+    }
+    const subscriptionIds = openOrdersAccounts.map((account) =>
+      connection.onAccountChange(account.address, async () => {
+        try {
+          const updated = [
+            await OpenOrders.load(connection, account.market, wallet.publicKey),
+          ]
+            .flat()
+            .find((o) => o.address.equals(account.address));
+          if (updated) {
+            setLiveAccounts((prev) =>
+              new Map(prev).set(account.address.toBase58(), updated),
+            );
+          }
+        } catch (e) {
+          console.log('Error reloading open orders account: ' + e.message);
+        }
+      }),
+    );
+    return () => {
+      subscriptionIds.forEach((id) =>
+        connection.removeAccountChangeListener(id),
+      );
+    };
+  }, [active, connection, wallet, openOrdersAccounts]);
+
+  const marketsByAddress = Object.fromEntries(
+    (allMarkets || []).map((marketInfo) => [
+      marketInfo.market.address.toBase58(),
+      marketInfo,
+    ]),
+  );
+  const pendingAccounts = [...liveAccounts.values()].filter((account) => {
+    const marketInfo = marketsByAddress[account.market.toBase58()];
+    if (!marketInfo) {
+      return false;
+    }
+    const baseMintInfo =
+      mintInfos && mintInfos[marketInfo.market.baseMintAddress.toBase58()];
+    const quoteMintInfo =
+      mintInfos && mintInfos[marketInfo.market.quoteMintAddress.toBase58()];
+    const baseFree = divideBnToNumber(
+      new BN(account.baseTokenFree),
+      getTokenMultiplierFromDecimals(baseMintInfo?.decimals || 0),
+    );
+    const quoteFree = divideBnToNumber(
+      new BN(account.quoteTokenFree),
+      getTokenMultiplierFromDecimals(quoteMintInfo?.decimals || 0),
+    );
+    return baseFree > threshold || quoteFree > threshold;
+  });
+
+  async function autoSettle() {
+    if (!wallet || !allMarkets || !tokenAccounts) {
+      return;
+    }
+    setSettling(true);
+    let error: string | null = null;
+    try {
+      console.log('Settling funds...');
+      const results = await settleAllFunds({
+        connection: sendConnection,
+        wallet,
+        tokenAccounts,
+        selectedTokenAccounts,
+        markets: allMarkets.map((marketInfo) => marketInfo.market),
+        openOrdersAccounts: pendingAccounts,
+        sendNotification: false,
+      });
+      error = results.find((result) => result.error)?.error || null;
+    } catch (e) {
+      error = e.message;
+    }
+    if (error) {
+      console.log('Error auto settling funds: ' + error);
+      failures.current += 1;
+    } else {
+      console.log('Finished settling funds.');
+      failures.current = 0;
+    }
+    nextRunAt.current =
+      Date.now() +
+      Math.min(
+        MIN_AUTO_SETTLE_INTERVAL * 2 ** failures.current,
+        MAX_AUTO_SETTLE_BACKOFF,
+      );
+    setLastRun(Date.now());
+    setLastError(error);
+    setSettling(false);
+  }
+
+  useInterval(() => {
+    active &&
+      !settling &&
+      pendingAccounts.length > 0 &&
+      Date.now() >= nextRunAt.current &&
+      autoSettle();
+  }, AUTO_SETTLE_TICK_INTERVAL);
+
+  return {
+    lastRun,
+    lastError,
+    settling,
+    pendingMarkets: pendingAccounts.map(
+      (account) => marketsByAddress[account.market.toBase58()].marketName,
+    ),
+  };
+}
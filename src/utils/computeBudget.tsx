@@ -0,0 +1,163 @@
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import { useLocalStorageState } from './utils';
+import { ComputeBudgetSettings } from './types';
+
+const COMPUTE_BUDGET_KEY = 'computeBudget';
+
+// No priority fee is paid until one is chosen in the settings
+export const DEFAULT_COMPUTE_BUDGET: ComputeBudgetSettings = {
+  priorityFeeMode: 'off',
+  microLamports: 100000,
+  computeUnitLimit: null,
+};
+
+// Auto mode pays this percentile of the fees of the recent slots
+const AUTO_PRIORITY_FEE_PERCENTILE = 0.75;
+const AUTO_PRIORITY_FEE_CACHE_DURATION = 10000;
+// getRecentPrioritizationFees takes at most this many accounts
+const MAX_LOCKED_WRITABLE_ACCOUNTS = 128;
+
+export function useComputeBudget(): [
+  ComputeBudgetSettings,
+  (newComputeBudget: ComputeBudgetSettings) => void,
+] {
+  const [computeBudget, setComputeBudget] = useLocalStorageState(
+    COMPUTE_BUDGET_KEY,
+    DEFAULT_COMPUTE_BUDGET,
+  );
+  return [{ ...DEFAULT_COMPUTE_BUDGET, ...computeBudget }, setComputeBudget];
+}
+
+/** The settings chosen in the settings popover, for use outside of React. */
+export function getComputeBudget(): ComputeBudgetSettings {
+  try {
+    return {
+      ...DEFAULT_COMPUTE_BUDGET,
+      ...JSON.parse(localStorage.getItem(COMPUTE_BUDGET_KEY) || '{}'),
+    };
+  } catch (e) {
+    return DEFAULT_COMPUTE_BUDGET;
+  }
+}
+
+let autoPriorityFeeCache: {
+  key: string;
+  microLamports: number;
+  time: number;
+} | null = null;
+
+async function getAutoPriorityFee(
+  connection: Connection,
+  writableAccounts: string[],
+) {
+  const key = writableAccounts.join();
+  if (
+    autoPriorityFeeCache &&
+    autoPriorityFeeCache.key === key &&
+    Date.now() - autoPriorityFeeCache.time < AUTO_PRIORITY_FEE_CACHE_DURATION
+  ) {
+    return autoPriorityFeeCache.microLamports;
+  }
+  const fees = (
+    await connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: writableAccounts
+        .slice(0, MAX_LOCKED_WRITABLE_ACCOUNTS)
+        .map((account) => new PublicKey(account)),
+    })
+  )
+    .map(({ prioritizationFee }) => prioritizationFee)
+    .sort((a, b) => a - b);
+  const microLamports =
+    fees.length > 0
+      ? fees[Math.floor((fees.length - 1) * AUTO_PRIORITY_FEE_PERCENTILE)]
+      : 0;
+  autoPriorityFeeCache = { key, microLamports, time: Date.now() };
+  return microLamports;
+}
+
+/**
+ * Stand-ins for the instructions added by addComputeBudgetInstructions, used
+ * to reserve their space when packing transactions.
+ */
+export function getComputeBudgetPlaceholderInstructions(): TransactionInstruction[] {
+  return [
+    ComputeBudgetProgram.setComputeUnitLimit({ units: 0 }),
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 0 }),
+  ];
+}
+
+/**
+ * The compute unit limit and priority fee instructions for `settings`, to go
+ * in front of `instructions`. Nothing is added if `instructions` already set
+ * their compute budget.
+ */
+export async function getComputeBudgetInstructions(
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  settings: ComputeBudgetSettings,
+): Promise<TransactionInstruction[]> {
+  if (
+    instructions.some(({ programId }) =>
+      programId.equals(ComputeBudgetProgram.programId),
+    )
+  ) {
+    return [];
+  }
+  const budgetInstructions: TransactionInstruction[] = [];
+  if (settings.computeUnitLimit) {
+    budgetInstructions.push(
+      ComputeBudgetProgram.setComputeUnitLimit({
+        units: settings.computeUnitLimit,
+      }),
+    );
+  }
+  let microLamports = 0;
+  if (settings.priorityFeeMode === 'fixed') {
+    microLamports = settings.microLamports;
+  } else if (settings.priorityFeeMode === 'auto') {
+    try {
+      const writableAccounts = [
+        ...new Set(
+          instructions
+            .flatMap(({ keys }) => keys)
+            .filter(({ isWritable }) => isWritable)
+            .map(({ pubkey }) => pubkey.toBase58()),
+        ),
+      ];
+      microLamports = Math.min(
+        await getAutoPriorityFee(connection, writableAccounts),
+        settings.microLamports,
+      );
+    } catch (e) {
+      console.log('Error getting recent prioritization fees: ' + e.message);
+    }
+  }
+  if (microLamports > 0) {
+    budgetInstructions.push(
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports }),
+    );
+  }
+  return budgetInstructions;
+}
+
+/** Prepends the compute budget instructions for `settings` to `transaction`. */
+export async function addComputeBudgetInstructions(
+  connection: Connection,
+  transaction: Transaction,
+  settings: ComputeBudgetSettings,
+) {
+  transaction.instructions = [
+    ...(await getComputeBudgetInstructions(
+      connection,
+      transaction.instructions,
+      settings,
+    )),
+    ...transaction.instructions,
+  ];
+}
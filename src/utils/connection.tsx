@@ -1,9 +1,27 @@
-import { useLocalStorageState } from './utils';
-import { Account, AccountInfo, Connection, PublicKey } from '@solana/web3.js';
-import React, { useContext, useEffect, useMemo, useRef } from 'react';
+import { setLocalStorageState, useLocalStorageState } from './utils';
+import {
+  Account,
+  AccountInfo,
+  Commitment,
+  Connection,
+  ConnectionConfig,
+  PublicKey,
+  SendOptions,
+  TransactionSignature,
+} from '@solana/web3.js';
+import React, {
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+} from 'react';
 import { setCache, useAsyncData } from './fetch-loop';
 import tuple from 'immutable-tuple';
-import { ConnectionContextValues, EndpointInfo } from './types';
+import { Cluster, ConnectionContextValues, EndpointInfo } from './types';
+import { getExplorerUrl, setExplorerSettings } from './explorer';
+import { getFailoverEndpoint, useEndpointHealth } from './endpointHealth';
+import { notify } from './notifications';
 
 export const ENDPOINTS: EndpointInfo[] = [
   {
@@ -11,11 +29,182 @@ export const ENDPOINTS: EndpointInfo[] = [
     endpoint: 'https://solana-api.projectserum.com',
     custom: false,
   },
+  { name: 'devnet', endpoint: 'https://api.devnet.solana.com', custom: false },
   { name: 'localnet', endpoint: 'http://127.0.0.1:8899', custom: false },
 ];
 
+const GENESIS_HASHES: { [genesisHash: string]: Cluster } = {
+  '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d': 'mainnet-beta',
+  EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG: 'devnet',
+  '4uhcVJyU9pJkvQyS88uRDiswHXSCkY3zQawwpjk2NsNY': 'testnet',
+};
+
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '0.0.0.0', '[::1]'];
+
+// Local validators each have their own genesis hash, so they are recognized
+// by their address instead
+export function getClusterFromGenesisHash(
+  genesisHash: string,
+  endpoint: string,
+): Cluster {
+  if (GENESIS_HASHES[genesisHash]) {
+    return GENESIS_HASHES[genesisHash];
+  }
+  try {
+    return LOCAL_HOSTNAMES.includes(new URL(endpoint).hostname)
+      ? 'localnet'
+      : 'unknown';
+  } catch (e) {
+    return 'unknown';
+  }
+}
+
+const genesisHashes = new WeakMap<Connection, Promise<string>>();
+
+/**
+ * Genesis hash of the cluster of `connection`, fetched once. For code outside
+ * of React, components use useGenesisHash.
+ */
+export function getGenesisHash(connection: Connection): Promise<string> {
+  if (!genesisHashes.has(connection)) {
+    genesisHashes.set(
+      connection,
+      connection.getGenesisHash().catch((e) => {
+        genesisHashes.delete(connection);
+        throw e;
+      }),
+    );
+  }
+  return genesisHashes.get(connection) as Promise<string>;
+}
+
+export async function getConnectionCluster(
+  connection: Connection,
+): Promise<Cluster> {
+  return getClusterFromGenesisHash(
+    await getGenesisHash(connection),
+    connection.rpcEndpoint,
+  );
+}
+
 const accountListenerCount = new Map();
 
+/**
+ * Connection to the first of `endpoints` that sends raw transactions to all
+ * of them in parallel. Resolves with the first endpoint that accepts the
+ * transaction, and fails only if they all reject it.
+ */
+export class BroadcastConnection extends Connection {
+  private readonly broadcastConnections: Connection[];
+
+  constructor(
+    endpoints: string[],
+    commitmentOrConfig?: Commitment | ConnectionConfig,
+  ) {
+    super(endpoints[0], commitmentOrConfig);
+    this.broadcastConnections = endpoints
+      .slice(1)
+      .map((endpoint) => new Connection(endpoint, commitmentOrConfig));
+  }
+
+  sendRawTransaction(
+    rawTransaction: Buffer | Uint8Array | Array<number>,
+    options?: SendOptions,
+  ): Promise<TransactionSignature> {
+    const sends = [
+      super.sendRawTransaction(rawTransaction, options),
+      ...this.broadcastConnections.map((connection) =>
+        connection.sendRawTransaction(rawTransaction, options),
+      ),
+    ];
+    return new Promise((resolve, reject) => {
+      let failed = 0;
+      sends.forEach((send) =>
+        send.then(resolve, (e) => {
+          console.log('Error sending transaction', e);
+          if (++failed === sends.length) {
+            reject(e);
+          }
+        }),
+      );
+    });
+  }
+}
+
+function getConnectionConfig({
+  wsEndpoint,
+  httpHeaders,
+  commitment = 'recent',
+}: EndpointInfo): ConnectionConfig {
+  return { commitment, wsEndpoint, httpHeaders };
+}
+
+export function createConnection(info: EndpointInfo) {
+  return new Connection(info.endpoint, getConnectionConfig(info));
+}
+
+/**
+ * Connection used to send and confirm transactions. It broadcasts to the
+ * send endpoints if there are any, which may be run by another provider, so
+ * the headers and websocket endpoint of `endpoint` are not used for them.
+ */
+export function createSendConnection(info: EndpointInfo): Connection {
+  if (!info.sendEndpoints?.length) {
+    return createConnection(info);
+  }
+  return new BroadcastConnection(info.sendEndpoints, {
+    commitment: getConnectionConfig(info).commitment,
+  });
+}
+
+// How long testEndpoint waits for a slot notification
+const SLOT_SUBSCRIPTION_TIMEOUT = 10_000;
+
+/**
+ * Checks that an endpoint answers RPC requests and websocket subscriptions,
+ * and that its send endpoints are on the same cluster. Throws an error
+ * naming the failed check.
+ */
+export async function testEndpoint(info: EndpointInfo) {
+  const connection = createConnection(info);
+  try {
+    await connection.getVersion();
+  } catch (e) {
+    throw new Error(`${info.endpoint} did not answer: ${e.message}`);
+  }
+  const genesisHash = await connection.getGenesisHash();
+  await new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      connection.removeSlotChangeListener(id);
+      reject(
+        new Error(
+          `No slot notification from ${
+            info.wsEndpoint || info.endpoint
+          }, check the websocket endpoint`,
+        ),
+      );
+    }, SLOT_SUBSCRIPTION_TIMEOUT);
+    const id = connection.onSlotChange(() => {
+      clearTimeout(timeout);
+      connection.removeSlotChangeListener(id);
+      resolve();
+    });
+  });
+  for (const sendEndpoint of info.sendEndpoints || []) {
+    let sendGenesisHash: string;
+    try {
+      sendGenesisHash = await new Connection(sendEndpoint).getGenesisHash();
+    } catch (e) {
+      throw new Error(`${sendEndpoint} did not answer: ${e.message}`);
+    }
+    if (sendGenesisHash !== genesisHash) {
+      throw new Error(`${sendEndpoint} is on a different cluster`);
+    }
+  }
+}
+
+const _VERY_SLOW_REFRESH_INTERVAL = 5000 * 1000;
+
 const ConnectionContext: React.Context<null | ConnectionContextValues> = React.createContext<null | ConnectionContextValues>(
   null,
 );
@@ -29,13 +218,74 @@ export function ConnectionProvider({ children }) {
     EndpointInfo[]
   >('customConnectionEndpoints', []);
   const availableEndpoints = ENDPOINTS.concat(customEndpoints);
+  const [autoFailover, setAutoFailover] = useLocalStorageState<boolean>(
+    'autoFailover',
+    false,
+  );
+  const endpointHealth = useEndpointHealth(endpoint, availableEndpoints);
+
+  // Subscriptions are keyed by connection, so switching the endpoint moves
+  // them to the new one
+  const failoverEndpoint =
+    autoFailover && endpointHealth[endpoint]?.status === 'down'
+      ? getFailoverEndpoint(endpoint, availableEndpoints, endpointHealth)
+      : undefined;
+  const failoverTo = failoverEndpoint?.endpoint;
+  useEffect(() => {
+    if (!failoverTo) {
+      return;
+    }
+    notify({
+      message: `Switched to ${failoverEndpoint?.name}`,
+      description: `${endpoint} is not responding`,
+    });
+    setEndpoint(failoverTo);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [failoverTo]);
+
+  const endpointInfo = availableEndpoints.find(
+    (info) => info.endpoint === endpoint,
+  );
+  const sendEndpoints = endpointInfo?.sendEndpoints?.length
+    ? endpointInfo.sendEndpoints
+    : [endpoint];
 
-  const connection = useMemo(() => new Connection(endpoint, 'recent'), [
-    endpoint,
-  ]);
-  const sendConnection = useMemo(() => new Connection(endpoint, 'recent'), [
-    endpoint,
-  ]);
+  const endpointInfoKey = JSON.stringify(endpointInfo);
+
+  const connection = useMemo(
+    () =>
+      createConnection(
+        endpointInfo || { name: endpoint, endpoint, custom: true },
+      ),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [endpoint, endpointInfoKey],
+  );
+  const sendConnection = useMemo(
+    () =>
+      createSendConnection(
+        endpointInfo || { name: endpoint, endpoint, custom: true },
+      ),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [endpoint, endpointInfoKey],
+  );
+
+  const [genesisHash] = useConnectionGenesisHash(connection);
+  // Until the genesis hash is known, built-in endpoints are taken to be on
+  // the cluster they are named after
+  const cluster: Cluster = genesisHash
+    ? getClusterFromGenesisHash(genesisHash, endpoint)
+    : endpointInfo && !endpointInfo.custom
+    ? (endpointInfo.name as Cluster)
+    : 'unknown';
+  useEffect(() => {
+    if (genesisHash) {
+      localStorage.setItem(getLastGenesisHashKey(endpoint), genesisHash);
+    }
+  }, [endpoint, genesisHash]);
+  const explorerUrl = endpointInfo?.explorerUrl;
+  useEffect(() => {
+    setExplorerSettings({ cluster, endpoint, explorerUrl });
+  }, [cluster, endpoint, explorerUrl]);
 
   // The websocket library solana/web3.js uses closes its websocket connection when the subscription list
   // is empty after opening its first time, preventing subsequent subscriptions from receiving responses.
@@ -78,8 +328,13 @@ export function ConnectionProvider({ children }) {
         setEndpoint,
         connection,
         sendConnection,
+        sendEndpoints,
+        cluster,
         availableEndpoints,
         setCustomEndpoints,
+        endpointHealth,
+        autoFailover,
+        setAutoFailover,
       }}
     >
       {children}
@@ -114,11 +369,116 @@ export function useConnectionConfig() {
       (info) => info.endpoint === context.endpoint,
     ),
     setEndpoint: context.setEndpoint,
+    sendEndpoints: context.sendEndpoints,
     availableEndpoints: context.availableEndpoints,
     setCustomEndpoints: context.setCustomEndpoints,
+    endpointHealth: context.endpointHealth,
+    autoFailover: context.autoFailover,
+    setAutoFailover: context.setAutoFailover,
   };
 }
 
+/** The cluster of the current endpoint, detected from its genesis hash. */
+export function useCluster(): Cluster {
+  const context = useContext(ConnectionContext);
+  if (!context) {
+    throw new Error('Missing connection context');
+  }
+  return context.cluster;
+}
+
+/** Makes explorer links for the cluster of the current endpoint. */
+export function useExplorerUrl(): (
+  type: 'tx' | 'address',
+  value: string,
+) => string {
+  const { endpoint, endpointInfo } = useConnectionConfig();
+  const cluster = useCluster();
+  const explorerUrl = endpointInfo?.explorerUrl;
+  return useCallback(
+    (type, value) =>
+      getExplorerUrl(type, value, { cluster, endpoint, explorerUrl }),
+    [cluster, endpoint, explorerUrl],
+  );
+}
+
+function useConnectionGenesisHash(
+  connection: Connection,
+): [string | undefined, boolean] {
+  return useAsyncData<string>(
+    () => connection.getGenesisHash(),
+    tuple('getGenesisHash', connection),
+    { refreshInterval: _VERY_SLOW_REFRESH_INTERVAL },
+  );
+}
+
+export function useGenesisHash(): [string | undefined, boolean] {
+  return useConnectionGenesisHash(useConnection());
+}
+
+// The genesis hash last seen on each endpoint, for cluster state read or
+// written before the genesis hash is fetched again
+function getLastGenesisHashKey(endpoint: string) {
+  return `genesisHash:${endpoint}`;
+}
+
+/**
+ * Like useLocalStorageState, but stored separately for each cluster, keyed by
+ * the cluster's genesis hash. Until it is fetched the genesis hash last seen
+ * on the endpoint is used, or the endpoint itself for new endpoints, whose
+ * state moves to the cluster once it is known. A value saved under the
+ * unscoped key by earlier versions moves to the first cluster it is read on.
+ * Updater functions get the value saved at the time of the update.
+ */
+export function useClusterLocalStorageState<T = any>(
+  key: string,
+  defaultState: T | null = null,
+): [T, (newState: T | ((state: T) => T)) => void] {
+  const { endpoint } = useConnectionConfig();
+  const [genesisHash] = useGenesisHash();
+  const knownGenesisHash =
+    genesisHash || localStorage.getItem(getLastGenesisHashKey(endpoint));
+  const endpointKey = `${key}:${endpoint}`;
+  const scopedKey = knownGenesisHash
+    ? `${key}:${knownGenesisHash}`
+    : endpointKey;
+  const [state, setState] = useLocalStorageState<T>(scopedKey, defaultState);
+
+  useEffect(() => {
+    if (!genesisHash) {
+      return;
+    }
+    const endpointState = localStorage.getItem(endpointKey);
+    if (endpointState !== null) {
+      setLocalStorageState(scopedKey, JSON.parse(endpointState));
+      localStorage.removeItem(endpointKey);
+    }
+    const legacyState = localStorage.getItem(key);
+    if (legacyState !== null) {
+      if (localStorage.getItem(scopedKey) === null) {
+        setLocalStorageState(scopedKey, JSON.parse(legacyState));
+      }
+      localStorage.removeItem(key);
+    }
+  }, [key, endpointKey, scopedKey, genesisHash]);
+
+  const setClusterState = (newState: T | ((state: T) => T)) => {
+    if (typeof newState !== 'function') {
+      setState(newState);
+      return;
+    }
+    const savedState = localStorage.getItem(scopedKey);
+    setLocalStorageState(
+      scopedKey,
+      (newState as (state: T) => T)(
+        savedState !== null ? JSON.parse(savedState) : defaultState,
+      ),
+    );
+  };
+
+  return [state, setClusterState];
+}
+
 export function useAccountInfo(
   publicKey: PublicKey | undefined | null,
 ): [AccountInfo<Buffer> | null | undefined, boolean] {
@@ -0,0 +1,195 @@
+import { useEffect, useRef, useState } from 'react';
+import { Connection } from '@solana/web3.js';
+import { sleep } from './utils';
+import { EndpointHealth, EndpointInfo, EndpointStatus } from './types';
+
+const HEALTH_CHECK_INTERVAL = 15_000;
+// A check that takes longer than this counts as failed
+const HEALTH_CHECK_TIMEOUT = 5_000;
+// Checks kept per endpoint for its error rate
+const HEALTH_CHECK_SAMPLES = 10;
+
+const MAX_SLOT_LAG = 50;
+const MAX_LATENCY = 2_000;
+const MAX_ERROR_RATE = 0.5;
+
+interface HealthCheck {
+  slot?: number;
+  latency?: number;
+  failed: boolean;
+}
+
+const connections = new Map<string, Connection>();
+const genesisHashes = new Map<string, Promise<string | null>>();
+
+// Checks only make HTTP requests, so the websocket endpoint is not needed
+function getConnection({ endpoint, httpHeaders }: EndpointInfo) {
+  if (!connections.has(endpoint)) {
+    connections.set(
+      endpoint,
+      new Connection(endpoint, { commitment: 'recent', httpHeaders }),
+    );
+  }
+  return connections.get(endpoint) as Connection;
+}
+
+function withTimeout<T>(promise: Promise<T>): Promise<T> {
+  return Promise.race([
+    promise,
+    sleep(HEALTH_CHECK_TIMEOUT).then(() => {
+      throw new Error('Timed out');
+    }),
+  ]);
+}
+
+function getGenesisHash(info: EndpointInfo) {
+  const { endpoint } = info;
+  if (!genesisHashes.has(endpoint)) {
+    genesisHashes.set(
+      endpoint,
+      withTimeout(getConnection(info).getGenesisHash()).catch(() => {
+        genesisHashes.delete(endpoint);
+        return null;
+      }),
+    );
+  }
+  return genesisHashes.get(endpoint) as Promise<string | null>;
+}
+
+async function checkEndpoint(info: EndpointInfo): Promise<HealthCheck> {
+  const start = Date.now();
+  try {
+    const slot = await withTimeout(getConnection(info).getSlot('recent'));
+    return { slot, latency: Date.now() - start, failed: false };
+  } catch (e) {
+    console.log(`Health check of ${info.endpoint} failed: ${e}`);
+    return { failed: true };
+  }
+}
+
+function getClusterName(info: EndpointInfo) {
+  return !info.custom ? info.name : 'mainnet-beta';
+}
+
+function getStatus({
+  slotLag,
+  latency,
+  errorRate,
+}: Omit<EndpointHealth, 'status' | 'checkedAt'>): EndpointStatus {
+  if (errorRate >= MAX_ERROR_RATE) {
+    return 'down';
+  }
+  if (
+    errorRate > 0 ||
+    (slotLag !== undefined && slotLag > MAX_SLOT_LAG) ||
+    (latency !== undefined && latency > MAX_LATENCY)
+  ) {
+    return 'degraded';
+  }
+  return 'healthy';
+}
+
+/**
+ * Periodically checks the current endpoint and the other endpoints of the
+ * same cluster, which are the ones it can fail over to. Endpoints are
+ * compared by slot to find the ones that fall behind.
+ */
+export function useEndpointHealth(
+  endpoint: string,
+  availableEndpoints: EndpointInfo[],
+): { [endpoint: string]: EndpointHealth } {
+  const [health, setHealth] = useState<{
+    [endpoint: string]: EndpointHealth;
+  }>({});
+  const checks = useRef(new Map<string, HealthCheck[]>());
+  const current: EndpointInfo = availableEndpoints.find(
+    (info) => info.endpoint === endpoint,
+  ) || { name: endpoint, endpoint, custom: true };
+  const endpointsKey = JSON.stringify(availableEndpoints);
+
+  useEffect(() => {
+    let cancelled = false;
+    setHealth({});
+
+    async function update() {
+      const genesisHash = await getGenesisHash(current);
+      const candidates = [current];
+      for (const other of availableEndpoints) {
+        if (other.endpoint === endpoint) {
+          continue;
+        }
+        // An endpoint that never answered is matched by name
+        const sameCluster = genesisHash
+          ? (await getGenesisHash(other)) === genesisHash
+          : getClusterName(other) === getClusterName(current);
+        if (sameCluster) {
+          candidates.push(other);
+        }
+      }
+      const results = await Promise.all(candidates.map(checkEndpoint));
+      if (cancelled) {
+        return;
+      }
+      candidates.forEach(({ endpoint }, i) => {
+        checks.current.set(
+          endpoint,
+          [results[i], ...(checks.current.get(endpoint) || [])].slice(
+            0,
+            HEALTH_CHECK_SAMPLES,
+          ),
+        );
+      });
+      const maxSlot = Math.max(0, ...results.map(({ slot }) => slot || 0));
+      const now = Date.now();
+      setHealth(
+        Object.fromEntries(
+          candidates.map(({ endpoint }) => {
+            const history = checks.current.get(endpoint) as HealthCheck[];
+            const last = history.find(({ failed }) => !failed);
+            const values = {
+              slot: last?.slot,
+              slotLag:
+                last?.slot !== undefined ? maxSlot - last.slot : undefined,
+              latency: last?.latency,
+              errorRate:
+                history.filter(({ failed }) => failed).length / history.length,
+            };
+            return [
+              endpoint,
+              { ...values, status: getStatus(values), checkedAt: now },
+            ];
+          }),
+        ),
+      );
+    }
+
+    update();
+    const id = setInterval(update, HEALTH_CHECK_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(id);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [endpoint, endpointsKey]);
+
+  return health;
+}
+
+/**
+ * The first healthy endpoint after `endpoint` in the endpoint list, if any.
+ * Only endpoints of the same cluster are checked, so only those can be
+ * returned.
+ */
+export function getFailoverEndpoint(
+  endpoint: string,
+  availableEndpoints: EndpointInfo[],
+  health: { [endpoint: string]: EndpointHealth },
+): EndpointInfo | undefined {
+  const index = availableEndpoints.findIndex(
+    (info) => info.endpoint === endpoint,
+  );
+  return [
+    ...availableEndpoints.slice(index + 1),
+    ...availableEndpoints.slice(0, Math.max(index, 0)),
+  ].find((info) => health[info.endpoint]?.status === 'healthy');
+}
@@ -0,0 +1,45 @@
+import { Cluster } from './types';
+
+const SOLSCAN_URL = 'https://solscan.io';
+
+export interface ExplorerSettings {
+  cluster: Cluster;
+  endpoint: string;
+  explorerUrl?: string;
+}
+
+// Kept in sync with the connection by ConnectionProvider, for links made
+// outside of React
+let currentSettings: ExplorerSettings = {
+  cluster: 'mainnet-beta',
+  endpoint: '',
+};
+
+export function setExplorerSettings(settings: ExplorerSettings) {
+  currentSettings = settings;
+}
+
+/**
+ * Link to a transaction or an address. Solscan is pointed at the cluster
+ * with `?cluster=`, and at the endpoint itself for local and unknown
+ * clusters. A custom explorer URL is used as is.
+ */
+export function getExplorerUrl(
+  type: 'tx' | 'address',
+  value: string,
+  { cluster, endpoint, explorerUrl }: ExplorerSettings = currentSettings,
+): string {
+  if (explorerUrl) {
+    return `${explorerUrl.replace(/\/$/, '')}/${type}/${value}`;
+  }
+  const url = `${SOLSCAN_URL}/${type}/${value}`;
+  switch (cluster) {
+    case 'mainnet-beta':
+      return url;
+    case 'devnet':
+    case 'testnet':
+      return `${url}?cluster=${cluster}`;
+    default:
+      return `${url}?cluster=custom&customUrl=${encodeURIComponent(endpoint)}`;
+  }
+}
@@ -0,0 +1,66 @@
+import { DEX_ID } from '@project-serum/serum';
+import { Keypair } from '@solana/web3.js';
+import { parseMarketRegistry } from './marketRegistry';
+
+const marketAddress = Keypair.generate().publicKey.toBase58();
+const deprecatedAddress = Keypair.generate().publicKey.toBase58();
+const programId = Keypair.generate().publicKey.toBase58();
+const lookupTable = Keypair.generate().publicKey.toBase58();
+const mint = Keypair.generate().publicKey.toBase58();
+
+function makeRegistry() {
+  return {
+    devnet: {
+      defaultMarket: 'Old',
+      markets: [
+        {
+          name: 'Old',
+          address: deprecatedAddress,
+          deprecated: true,
+        },
+        {
+          name: 'Test',
+          address: marketAddress,
+          programId,
+          lookupTable,
+        },
+      ],
+      tokens: [{ name: 'Mint', address: mint }],
+    },
+  };
+}
+
+describe('parseMarketRegistry', () => {
+  test('converts the addresses of a valid document', () => {
+    const { devnet } = parseMarketRegistry(makeRegistry());
+    const [deprecated, market] = devnet.markets;
+    expect(deprecated.programId.equals(DEX_ID)).toBe(true);
+    expect(deprecated.deprecated).toBe(true);
+    expect(deprecated.lookupTable).toBeUndefined();
+    expect(market.address.toBase58()).toBe(marketAddress);
+    expect(market.programId.toBase58()).toBe(programId);
+    expect(market.lookupTable.toBase58()).toBe(lookupTable);
+    expect(devnet.tokens[0].address.toBase58()).toBe(mint);
+  });
+
+  test('skips a deprecated default market', () => {
+    const { devnet } = parseMarketRegistry(makeRegistry());
+    expect(devnet.defaultMarket.name).toBe('Test');
+  });
+
+  test('throws on a bad address', () => {
+    const registry = makeRegistry();
+    registry.devnet.markets[1].address = 'not an address';
+    expect(() => parseMarketRegistry(registry)).toThrow();
+  });
+
+  test('throws on a cluster without markets', () => {
+    const registry = makeRegistry();
+    delete registry.devnet.markets;
+    expect(() => parseMarketRegistry(registry)).toThrow();
+  });
+
+  test('leaves out clusters missing from the document', () => {
+    expect(parseMarketRegistry(makeRegistry())['mainnet-beta']).toBeUndefined();
+  });
+});
@@ -0,0 +1,136 @@
+import { DEX_ID } from '@project-serum/serum';
+import { PublicKey } from '@solana/web3.js';
+import { struct } from 'superstruct';
+import tuple from 'immutable-tuple';
+import bundledRegistry from '../markets.json';
+import { getCache, useAsyncData } from './fetch-loop';
+import { useCluster } from './connection';
+import { notify } from './notifications';
+import { Cluster, MarketInfo } from './types';
+
+const MarketEntry = struct({
+  name: 'string',
+  address: 'string',
+  programId: 'string?',
+  deprecated: 'boolean?',
+  lookupTable: 'string?',
+});
+
+const TokenEntry = struct({
+  name: 'string',
+  address: 'string',
+});
+
+const ClusterRegistry = struct({
+  defaultMarket: 'string?',
+  markets: [MarketEntry],
+  tokens: [TokenEntry],
+});
+
+const MarketRegistrySchema = struct.record(['string', ClusterRegistry]);
+
+export interface TokenMint {
+  name: string;
+  address: PublicKey;
+}
+
+export interface MarketRegistry {
+  markets: MarketInfo[];
+  tokens: TokenMint[];
+  defaultMarket?: MarketInfo;
+}
+
+const EMPTY_REGISTRY: MarketRegistry = { markets: [], tokens: [] };
+
+const _VERY_SLOW_REFRESH_INTERVAL = 5000 * 1000;
+
+/**
+ * Validates a registry document and converts its addresses. Throws if the
+ * document does not match the schema or contains an invalid address.
+ */
+export function parseMarketRegistry(
+  json: any,
+): { [cluster: string]: MarketRegistry } {
+  const registry = MarketRegistrySchema(json);
+  return Object.fromEntries(
+    Object.entries(registry).map(([cluster, entry]: [string, any]) => {
+      const markets: MarketInfo[] = entry.markets.map((market) => ({
+        name: market.name,
+        address: new PublicKey(market.address),
+        programId: market.programId ? new PublicKey(market.programId) : DEX_ID,
+        deprecated: !!market.deprecated,
+        lookupTable: market.lookupTable
+          ? new PublicKey(market.lookupTable)
+          : undefined,
+      }));
+      return [
+        cluster,
+        {
+          markets,
+          tokens: entry.tokens.map((token) => ({
+            name: token.name,
+            address: new PublicKey(token.address),
+          })),
+          defaultMarket:
+            markets.find(
+              ({ name, deprecated }) =>
+                name === entry.defaultMarket && !deprecated,
+            ) || markets.find(({ deprecated }) => !deprecated),
+        },
+      ];
+    }),
+  );
+}
+
+// The registry is loaded from REACT_APP_MARKET_REGISTRY_URL when set, and
+// falls back to the one bundled in src/markets.json.
+async function loadMarketRegistry() {
+  const url = process.env.REACT_APP_MARKET_REGISTRY_URL;
+  if (url) {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`);
+      }
+      return parseMarketRegistry(await response.json());
+    } catch (e) {
+      notify({
+        message: 'Error loading market registry',
+        description: `${e.message}. Falling back to the bundled markets.`,
+        type: 'error',
+      });
+    }
+  }
+  return parseMarketRegistry(bundledRegistry);
+}
+
+export function useMarketRegistry(): [MarketRegistry, boolean] {
+  const cluster = useCluster();
+  const [registry, loaded] = useAsyncData(
+    loadMarketRegistry,
+    tuple('loadMarketRegistry'),
+    { refreshInterval: _VERY_SLOW_REFRESH_INTERVAL },
+  );
+  return [(registry && registry[cluster]) || EMPTY_REGISTRY, loaded];
+}
+
+/**
+ * Address lookup table of a market in the registry of `cluster`, for use
+ * outside of React. Empty until the registry has loaded.
+ */
+export function getMarketLookupTable(
+  market: PublicKey,
+  cluster: Cluster,
+): PublicKey | undefined {
+  const registry: { [cluster: string]: MarketRegistry } | undefined = getCache(
+    tuple('loadMarketRegistry'),
+  );
+  return registry?.[cluster]?.markets.find(({ address }) =>
+    address.equals(market),
+  )?.lookupTable;
+}
+
+export function useTokenMints(): TokenMint[] {
+  const [{ tokens }] = useMarketRegistry();
+  return tokens;
+}
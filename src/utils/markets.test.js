@@ -0,0 +1,76 @@
+import { getExpectedFill, getMarketOrderPrice } from './markets';
+
+const orderbook = {
+  bids: [
+    [9.9, 1],
+    [9.8, 2],
+    [9.5, 5],
+  ],
+  asks: [
+    [10, 1],
+    [10.1, 2],
+    [10.5, 5],
+  ],
+};
+
+describe('getExpectedFill', () => {
+  test('averages across the levels it consumes', () => {
+    const fill = getExpectedFill(orderbook.asks, 2);
+    expect(fill.avgPrice).toBeCloseTo(10.05);
+    expect(fill.worstPrice).toBe(10.1);
+    expect(fill.filledSize).toBe(2);
+  });
+
+  test('stops at the first level when it is deep enough', () => {
+    const fill = getExpectedFill(orderbook.bids, 0.5);
+    expect(fill.avgPrice).toBe(9.9);
+    expect(fill.worstPrice).toBe(9.9);
+    expect(fill.filledSize).toBe(0.5);
+  });
+
+  test('reports a partial fill when the book is too thin', () => {
+    const fill = getExpectedFill(orderbook.asks, 10);
+    expect(fill.filledSize).toBe(8);
+    expect(fill.worstPrice).toBe(10.5);
+    expect(fill.avgPrice).toBeCloseTo((10 + 20.2 + 52.5) / 8);
+  });
+
+  test('returns null without liquidity', () => {
+    expect(getExpectedFill([], 1)).toBeNull();
+  });
+});
+
+describe('getMarketOrderPrice', () => {
+  test('buys up to the best ask plus slippage, rounded down to tick', () => {
+    const result = getMarketOrderPrice(orderbook, 'buy', 2, 0.015, 0.1);
+    expect(result.price).toBe(10.1);
+    expect(result.slippage).toBeCloseTo(0.005);
+    expect(result.withinSlippage).toBe(true);
+    expect(result.fullyFillable).toBe(true);
+  });
+
+  test('sells down to the best bid minus slippage, rounded up to tick', () => {
+    const result = getMarketOrderPrice(orderbook, 'sell', 3, 0.015, 0.1);
+    expect(result.price).toBe(9.8);
+    expect(result.avgPrice).toBeCloseTo((9.9 + 19.6) / 3);
+    expect(result.withinSlippage).toBe(true);
+  });
+
+  test('flags orders that would walk past the slippage guard', () => {
+    const result = getMarketOrderPrice(orderbook, 'buy', 5, 0.01, 0.1);
+    expect(result.price).toBe(10.1);
+    expect(result.worstPrice).toBe(10.5);
+    expect(result.withinSlippage).toBe(false);
+  });
+
+  test('never sends a sell price below one tick', () => {
+    const result = getMarketOrderPrice(orderbook, 'sell', 1, 1, 0.1);
+    expect(result.price).toBe(0.1);
+  });
+
+  test('returns null when the opposite side is empty', () => {
+    expect(
+      getMarketOrderPrice({ bids: [], asks: [] }, 'buy', 1, 0.01, 0.1),
+    ).toBeNull();
+  });
+});
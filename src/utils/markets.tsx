@@ -1,21 +1,24 @@
-import {
-  Market,
-  OpenOrders,
-  Orderbook,
-  DEX_ID,
-  Side,
-} from '@project-serum/serum';
-import { PublicKey } from '@solana/web3.js';
-import React, { useContext, useEffect, useState } from 'react';
+import { Market, OpenOrders, Orderbook, Side } from '@project-serum/serum';
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
+import React, { useContext, useEffect, useMemo, useState } from 'react';
 import {
   divideBnToNumber,
-  floorToDecimal,
+  getDecimalCount,
   getTokenMultiplierFromDecimals,
-  sleep,
+  mapWithConcurrency,
+  roundToDecimal,
   useLocalStorageState,
 } from './utils';
-import { refreshCache, useAsyncData } from './fetch-loop';
-import { useAccountData, useAccountInfo, useConnection } from './connection';
+import { getCache, refreshCache, setCache, useAsyncData } from './fetch-loop';
+import {
+  useAccountData,
+  useAccountInfo,
+  useCluster,
+  useClusterLocalStorageState,
+  useConnection,
+  useConnectionConfig,
+  useGenesisHash,
+} from './connection';
 import { useWallet } from './wallet';
 import tuple from 'immutable-tuple';
 import { notify } from './notifications';
@@ -23,21 +26,33 @@ import BN from 'bn.js';
 import {
   getTokenAccountInfo,
   parseTokenAccountData,
+  parseTokenMintData,
   useMintInfos,
 } from './tokens';
 import {
   Balances,
+  Cluster,
   CustomMarketInfo,
   DeprecatedOpenOrdersBalances,
   FullMarketInfo,
   MarketContextValues,
   MarketInfo,
   OrderWithMarketAndMarketName,
+  PublicTrade,
   SelectedTokenAccounts,
   TokenAccount,
+  TradeSource,
 } from './types';
 import BonfidaApi from './bonfidaConnector';
-import { Slab } from '@bonfida/aaob';
+import {
+  EventFill,
+  EventQueue,
+  MarketState,
+  Side as AaobSide,
+  Slab,
+} from '@bonfida/aaob';
+import { getMultipleSolanaAccounts } from './send';
+import { TokenMint, useMarketRegistry } from './marketRegistry';
 
 export interface Order {
   orderId: BN;
@@ -52,32 +67,12 @@ export const WRAPPED_SOL_MINT = new PublicKey(
   'So11111111111111111111111111111111111111112',
 );
 
-const mint1 = new PublicKey('CZen4jVxdisrutQo2FeNY916uoeuEtLwfqSqJk9HHdEF');
-const mint2 = new PublicKey('Cq47UeAkQcZmnaLPFpbHF8ZLjrPu4PhjshtsoKifMmMU');
-
-const marketAddress = new PublicKey(
-  'BT7i1viSJSQBHQ1jWVs7VWPBrY3gT5PLbYm9f62F7ZhR',
-);
-
-export const USE_MARKETS: MarketInfo[] = [
-  {
-    name: 'Test',
-    address: marketAddress,
-    programId: DEX_ID,
-    deprecated: false,
-  },
-];
-
-export const TOKEN_MINTS = [
-  { name: 'Mint 1', address: mint1 },
-  { name: 'Mint 2', address: mint2 },
-];
-
 // Used in debugging, should be false in production
 const _IGNORE_DEPRECATED = false;
 
 export function useMarketsList() {
-  return USE_MARKETS.filter(
+  const [{ markets }] = useMarketRegistry();
+  return markets.filter(
     ({ name, deprecated }) =>
       !deprecated && !process.env.REACT_APP_EXCLUDE_MARKETS?.includes(name),
   );
@@ -85,7 +80,7 @@ export function useMarketsList() {
 
 export function useAllMarkets() {
   const connection = useConnection();
-  const { customMarkets } = useCustomMarkets();
+  const marketInfos = useMarketInfos();
 
   const getAllMarkets = async () => {
     const markets: Array<{
@@ -93,7 +88,7 @@ export function useAllMarkets() {
       marketName: string;
       programId: PublicKey;
     } | null> = await Promise.all(
-      getMarketInfos(customMarkets).map(async (marketInfo) => {
+      marketInfos.map(async (marketInfo) => {
         try {
           const market = await Market.load(connection, marketInfo.address);
           return {
@@ -119,7 +114,7 @@ export function useAllMarkets() {
   };
   return useAsyncData(
     getAllMarkets,
-    tuple('getAllMarkets', customMarkets.length, connection),
+    tuple('getAllMarkets', marketInfos.length, connection),
     { refreshInterval: _VERY_SLOW_REFRESH_INTERVAL },
   );
 }
@@ -136,30 +131,26 @@ const _SLOW_REFRESH_INTERVAL = 5 * 1000;
 // For things that change frequently
 const _FAST_REFRESH_INTERVAL = 1000;
 
-export const DEFAULT_MARKET = USE_MARKETS.find(
-  ({ name, deprecated }) => name === 'SRM/USDT' && !deprecated,
-);
-
 export function getMarketDetails(
   market: Market | undefined | null,
-  customMarkets: CustomMarketInfo[],
+  marketInfos: MarketInfo[],
+  tokenMints: TokenMint[],
 ): FullMarketInfo {
   if (!market) {
     return {};
   }
-  const marketInfos = getMarketInfos(customMarkets);
   const marketInfo = marketInfos.find((otherMarket) =>
     otherMarket.address.equals(market.address),
   );
   const baseCurrency =
     (market?.baseMintAddress &&
-      TOKEN_MINTS.find((token) => token.address.equals(market.baseMintAddress))
+      tokenMints.find((token) => token.address.equals(market.baseMintAddress))
         ?.name) ||
     (marketInfo?.baseLabel && `${marketInfo?.baseLabel}*`) ||
     'UNKNOWN';
   const quoteCurrency =
     (market?.quoteMintAddress &&
-      TOKEN_MINTS.find((token) => token.address.equals(market.quoteMintAddress))
+      tokenMints.find((token) => token.address.equals(market.quoteMintAddress))
         ?.name) ||
     (marketInfo?.quoteLabel && `${marketInfo?.quoteLabel}*`) ||
     'UNKNOWN';
@@ -174,7 +165,7 @@ export function getMarketDetails(
 }
 
 export function useCustomMarkets() {
-  const [customMarkets, setCustomMarkets] = useLocalStorageState<
+  const [customMarkets, setCustomMarkets] = useClusterLocalStorageState<
     CustomMarketInfo[]
   >('customMarkets', []);
   return { customMarkets, setCustomMarkets };
@@ -183,22 +174,46 @@ export function useCustomMarkets() {
 export function MarketProvider({ marketAddress, setMarketAddress, children }) {
   const { customMarkets, setCustomMarkets } = useCustomMarkets();
 
+  const [registry, registryLoaded] = useMarketRegistry();
+  const [, genesisHashLoaded] = useGenesisHash();
+  const [lastMarketAddress, setLastMarketAddress] = useClusterLocalStorageState<
+    string | null
+  >('marketAddress', null);
+
   const address = marketAddress && new PublicKey(marketAddress);
   const connection = useConnection();
-  const marketInfos = getMarketInfos(customMarkets);
+  const marketInfos = getMarketInfos(customMarkets, registry.markets);
   const marketInfo =
     address && marketInfos.find((market) => market.address.equals(address));
+  const fallbackMarket =
+    marketInfos.find(
+      (market) =>
+        !market.deprecated && market.address.toBase58() === lastMarketAddress,
+    ) || registry.defaultMarket;
 
-  // Replace existing market with a non-deprecated one on first load
   useEffect(() => {
-    if (marketInfo && marketInfo.deprecated) {
-      console.log('Switching markets from deprecated', marketInfo);
-      if (DEFAULT_MARKET) {
-        setMarketAddress(DEFAULT_MARKET.address.toBase58());
-      }
+    if (marketInfo && !marketInfo.deprecated) {
+      setLastMarketAddress(marketInfo.address.toBase58());
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [marketInfo?.address.toBase58()]);
+
+  // Replace a missing, deprecated or other-cluster market with the last one
+  // visited on this cluster, or the cluster's default one
+  useEffect(() => {
+    if (
+      !registryLoaded ||
+      !genesisHashLoaded ||
+      (marketInfo && !marketInfo.deprecated)
+    ) {
+      return;
+    }
+    console.log('Switching markets from', marketAddress);
+    if (fallbackMarket) {
+      setMarketAddress(fallbackMarket.address.toBase58());
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [registryLoaded, genesisHashLoaded, marketAddress, !!marketInfo]);
 
   const [market, setMarket] = useState<Market | null>();
   useEffect(() => {
@@ -211,7 +226,13 @@ export function MarketProvider({ marketAddress, setMarketAddress, children }) {
       return;
     }
     setMarket(null);
+    if (!registryLoaded) {
+      return;
+    }
     if (!marketInfo || !marketInfo.address) {
+      if (fallbackMarket) {
+        return;
+      }
       notify({
         message: 'Error loading market',
         description: 'Please select a market from the dropdown',
@@ -229,13 +250,13 @@ export function MarketProvider({ marketAddress, setMarketAddress, children }) {
         }),
       );
     // eslint-disable-next-line
-  }, [connection, marketInfo]);
+  }, [connection, marketInfo, registryLoaded]);
 
   return (
     <MarketContext.Provider
       value={{
         market,
-        ...getMarketDetails(market, customMarkets),
+        ...getMarketDetails(market, marketInfos, registry.tokens),
         setMarketAddress,
         customMarkets,
         setCustomMarkets,
@@ -246,15 +267,10 @@ export function MarketProvider({ marketAddress, setMarketAddress, children }) {
   );
 }
 
+// Without an address the trade page opens the last market visited on the
+// current cluster, or its default market
 export function getTradePageUrl(marketAddress?: string) {
-  if (!marketAddress) {
-    const saved = localStorage.getItem('marketAddress');
-    if (saved) {
-      marketAddress = JSON.parse(saved);
-    }
-    marketAddress = marketAddress || DEFAULT_MARKET?.address.toBase58() || '';
-  }
-  return `/market/${marketAddress}`;
+  return marketAddress ? `/market/${marketAddress}` : '/market';
 }
 
 export function useSelectedTokenAccounts(): [
@@ -264,7 +280,10 @@ export function useSelectedTokenAccounts(): [
   const [
     selectedTokenAccounts,
     setSelectedTokenAccounts,
-  ] = useLocalStorageState<SelectedTokenAccounts>('selectedTokenAccounts', {});
+  ] = useClusterLocalStorageState<SelectedTokenAccounts>(
+    'selectedTokenAccounts',
+    {},
+  );
   return [selectedTokenAccounts, setSelectedTokenAccounts];
 }
 
@@ -328,12 +347,12 @@ export function _useUnfilteredTrades(limit = 10000) {
   //   .map(market.parseFillEvent.bind(market));
 }
 
-export function useBonfidaTrades() {
+export function useBonfidaTrades(enabled = true) {
   const { market } = useMarket();
   const marketAddress = market?.address.toBase58();
 
   async function getBonfidaTrades() {
-    if (!marketAddress) {
+    if (!marketAddress || !enabled) {
       return null;
     }
     return await BonfidaApi.getRecentTrades(marketAddress);
@@ -341,51 +360,241 @@ export function useBonfidaTrades() {
 
   return useAsyncData(
     getBonfidaTrades,
-    tuple('getBonfidaTrades', marketAddress),
+    tuple('getBonfidaTrades', marketAddress, enabled),
     { refreshInterval: _SLOW_REFRESH_INTERVAL },
     false,
   );
 }
 
+/**
+ * Trade sources available on the cluster, the first one being the default.
+ * Bonfida only indexes mainnet markets.
+ */
+function getAvailableTradeSources(cluster: Cluster): TradeSource[] {
+  return cluster === 'mainnet-beta'
+    ? ['bonfida', 'eventQueue']
+    : ['eventQueue'];
+}
+
+export function useTradeSource(): [
+  TradeSource,
+  (tradeSource: TradeSource) => void,
+  TradeSource[],
+] {
+  const { endpoint } = useConnectionConfig();
+  const cluster = useCluster();
+  const [tradeSources, setTradeSources] = useLocalStorageState<{
+    [endpoint: string]: TradeSource;
+  }>('tradeSources', {});
+  const availableTradeSources = getAvailableTradeSources(cluster);
+  const tradeSource = availableTradeSources.includes(tradeSources[endpoint])
+    ? tradeSources[endpoint]
+    : availableTradeSources[0];
+  const setTradeSource = (newTradeSource: TradeSource) =>
+    setTradeSources({ ...tradeSources, [endpoint]: newTradeSource });
+  return [tradeSource, setTradeSource, availableTradeSources];
+}
+
+// Trades seen so far per market, kept across event queue updates since the
+// crank removes events from the queue once they are consumed
+const eventQueueTapes: Map<any, PublicTrade[]> = new Map();
+
+// Adds the incoming trades that are not on the tape yet, timed when they are
+// first seen since the event queue has no timestamps
+function mergeTrades(
+  previous: PublicTrade[],
+  incoming: Omit<PublicTrade, 'time'>[],
+  limit: number,
+  time: number,
+): PublicTrade[] {
+  const seen = new Set(previous.map(({ seqNum }) => seqNum));
+  return previous
+    .concat(
+      incoming
+        .filter(({ seqNum }) => !seen.has(seqNum))
+        .map((trade) => ({ ...trade, time })),
+    )
+    .sort((a, b) => (b.seqNum || 0) - (a.seqNum || 0))
+    .slice(0, limit);
+}
+
+export function useEventQueueTrades(
+  limit = 100,
+  enabled = true,
+): [PublicTrade[] | null, boolean] {
+  const connection = useConnection();
+  const { market } = useMarket();
+  const [orderbook] = useOrderbookAccounts();
+  const marketState = orderbook?.market;
+  const eventQueueData = useAccountData(
+    enabled ? marketState?.eventQueue : null,
+  );
+  const tapeKey = tuple(connection, market?.address.toBase58());
+
+  const incoming = useMemo(() => {
+    if (!market || !marketState || !eventQueueData) {
+      return null;
+    }
+    const eventQueue = EventQueue.parse(
+      marketState.callBackInfoLen.toNumber(),
+      eventQueueData,
+    );
+    const count = eventQueue.header.count.toNumber();
+    const firstSeqNum = eventQueue.header.seqNum.toNumber() - count;
+    const fills: Omit<PublicTrade, 'time'>[] = [];
+    for (let i = 0; i < count; ++i) {
+      const event = eventQueue.parseEvent(i);
+      if (!(event instanceof EventFill) || event.baseSize.isZero()) {
+        continue;
+      }
+      const size = market.baseSplSizeToNumber(event.baseSize);
+      fills.push({
+        price: market.quoteSplSizeToNumber(event.quoteSize) / size,
+        size,
+        side: event.takerSide === AaobSide.Bid ? 'buy' : 'sell',
+        seqNum: firstSeqNum + i,
+      });
+    }
+    return fills;
+  }, [market, marketState, eventQueueData]);
+
+  const [trades, setTrades] = useState<PublicTrade[] | null>(
+    () => eventQueueTapes.get(tapeKey) || null,
+  );
+  useEffect(() => {
+    if (!incoming) {
+      setTrades(eventQueueTapes.get(tapeKey) || null);
+      return;
+    }
+    const tape = mergeTrades(
+      eventQueueTapes.get(tapeKey) || [],
+      incoming,
+      limit,
+      Date.now(),
+    );
+    eventQueueTapes.set(tapeKey, tape);
+    setTrades(tape);
+  }, [incoming, tapeKey, limit]);
+
+  return [trades, !!trades];
+}
+
+export function usePublicTrades(
+  limit = 100,
+): [PublicTrade[] | null | undefined, boolean] {
+  const [tradeSource] = useTradeSource();
+  const bonfidaTrades = useBonfidaTrades(tradeSource === 'bonfida');
+  const eventQueueTrades = useEventQueueTrades(
+    limit,
+    tradeSource === 'eventQueue',
+  );
+  return tradeSource === 'bonfida' ? bonfidaTrades : eventQueueTrades;
+}
+
+// Polling is only a fallback, the slabs are kept current by subscriptions
+const _ORDERBOOK_FALLBACK_REFRESH_INTERVAL = 60_000;
+
+const orderbookListenerCount = new Map();
+
 export function useOrderbookAccounts(): [
   Orderbook | null | undefined,
   boolean,
 ] {
   const connection = useConnection();
   const { market } = useMarket();
+  const cacheKey = tuple(
+    'useOrderbookAccounts',
+    connection,
+    market?.address.toBase58(),
+  );
   const fn = async () => {
     if (!market) return;
     const orderbook = await Orderbook.load(connection, market.address);
     return orderbook;
   };
-  return useAsyncData(
+  const [orderbook, loaded] = useAsyncData<Orderbook | undefined>(
     fn,
-    tuple('useOrderbookAccounts', market?.address.toBase58()),
+    cacheKey,
+    { refreshInterval: _ORDERBOOK_FALLBACK_REFRESH_INTERVAL },
   );
+
+  const bidsAddress = orderbook?.market.bids.toBase58();
+  const asksAddress = orderbook?.market.asks.toBase58();
+  useEffect(() => {
+    if (!bidsAddress || !asksAddress) {
+      return;
+    }
+    if (orderbookListenerCount.has(cacheKey)) {
+      ++orderbookListenerCount.get(cacheKey).count;
+    } else {
+      // Only the slab that changed is decoded, the other side is reused
+      const subscribe = (address: string, asks: boolean) =>
+        connection.onAccountChange(new PublicKey(address), (info) => {
+          const current: Orderbook | undefined = getCache(cacheKey);
+          if (!current) {
+            return;
+          }
+          const slab = Slab.deserialize(
+            info.data,
+            current.market.callBackInfoLen,
+          );
+          setCache(
+            cacheKey,
+            asks
+              ? new Orderbook(current.market, current.slabBids, slab)
+              : new Orderbook(current.market, slab, current.slabAsks),
+          );
+        });
+      orderbookListenerCount.set(cacheKey, {
+        count: 1,
+        subscriptionIds: [
+          subscribe(bidsAddress, false),
+          subscribe(asksAddress, true),
+        ],
+      });
+    }
+    return () => {
+      let currentItem = orderbookListenerCount.get(cacheKey);
+      if (--currentItem.count <= 0) {
+        currentItem.subscriptionIds.forEach((id) =>
+          connection.removeAccountChangeListener(id),
+        );
+        orderbookListenerCount.delete(cacheKey);
+      }
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cacheKey, bidsAddress, asksAddress]);
+
+  return [orderbook, loaded];
 }
 
 export function useOrderbook(
   depth = 20,
 ): [{ bids: number[][]; asks: number[][] }, boolean] {
-  const [orderbook] = useOrderbookAccounts();
+  const [orderbook, loaded] = useOrderbookAccounts();
 
   const { market } = useMarket();
-  const bids =
-    !orderbook || !market
-      ? []
-      : orderbook.getL2(depth, false).map((p) => [p.price, p.quantity]);
-  const asks =
-    !orderbook || !market
-      ? []
-      : orderbook.getL2(depth, true).map((p) => [p.price, p.quantity]);
-  return [{ bids, asks }, !!bids || !!asks];
+  const book = useMemo(
+    () => ({
+      bids:
+        !orderbook || !market
+          ? []
+          : orderbook.getL2(depth, false).map((p) => [p.price, p.quantity]),
+      asks:
+        !orderbook || !market
+          ? []
+          : orderbook.getL2(depth, true).map((p) => [p.price, p.quantity]),
+    }),
+    [orderbook, market, depth],
+  );
+  return [book, loaded];
 }
 
 // Want the balances table to be fast-updating, dont want open orders to flicker
 // TODO: Update to use websocket
 export function useOpenOrdersAccounts(fast = false) {
   const { market } = useMarket();
-  const { connected, wallet } = useWallet();
+  const { connected, wallet, publicKey } = useWallet();
   const connection = useConnection();
   async function getOpenOrdersAccounts() {
     if (!connected || !wallet) {
@@ -401,7 +610,7 @@ export function useOpenOrdersAccounts(fast = false) {
   }
   return useAsyncData(
     getOpenOrdersAccounts,
-    tuple('getOpenOrdersAccounts', wallet, market, connected),
+    tuple('getOpenOrdersAccounts', publicKey, market, connected),
     { refreshInterval: fast ? _FAST_REFRESH_INTERVAL : _SLOW_REFRESH_INTERVAL },
   );
 }
@@ -418,7 +627,7 @@ export function useTokenAccounts(): [
   TokenAccount[] | null | undefined,
   boolean,
 ] {
-  const { connected, wallet } = useWallet();
+  const { connected, wallet, publicKey } = useWallet();
   const connection = useConnection();
   async function getTokenAccounts() {
     if (!connected || !wallet) {
@@ -428,7 +637,7 @@ export function useTokenAccounts(): [
   }
   return useAsyncData(
     getTokenAccounts,
-    tuple('getTokenAccounts', wallet, connected),
+    tuple('getTokenAccounts', publicKey, connected),
     { refreshInterval: _SLOW_REFRESH_INTERVAL },
   );
 }
@@ -521,17 +730,8 @@ export function useOpenOrders() {
 }
 
 export function useTrades(limit = 100) {
-  const trades = _useUnfilteredTrades(limit);
-  if (!trades) {
-    return null;
-  }
-  // Until partial fills are each given their own fill, use maker fills
-  return trades
-    .filter(({ eventFlags }) => eventFlags.maker)
-    .map((trade) => ({
-      ...trade,
-      side: trade.side === 'buy' ? 'sell' : 'buy',
-    }));
+  const [trades] = usePublicTrades(limit);
+  return trades;
 }
 
 export function useLocallyStoredFeeDiscountKey(): {
@@ -564,7 +764,7 @@ export function useFeeDiscountKeys(): [
   boolean,
 ] {
   const { market } = useMarket();
-  const { connected, wallet } = useWallet();
+  const { connected, wallet, publicKey } = useWallet();
   const connection = useConnection();
   const { setStoredFeeDiscountKey } = useLocallyStoredFeeDiscountKey();
   let getFeeDiscountKeys = async () => {
@@ -585,7 +785,7 @@ export function useFeeDiscountKeys(): [
   };
   return useAsyncData(
     getFeeDiscountKeys,
-    tuple('getFeeDiscountKeys', wallet, market, connected),
+    tuple('getFeeDiscountKeys', publicKey, market, connected),
     { refreshInterval: _SLOW_REFRESH_INTERVAL },
   );
 }
@@ -614,13 +814,22 @@ export function useAllOpenOrdersAccounts() {
     if (!connected || !wallet) {
       return [];
     }
+    const programIds = [
+      ...new Set(marketInfos.map(({ programId }) => programId.toBase58())),
+    ].map((programId) => new PublicKey(programId));
+    const marketAddresses = new Set(
+      marketInfos.map(({ address }) => address.toBase58()),
+    );
+    // One getProgramAccounts per program instead of one call per market
     return (
       await Promise.all(
-        USE_MARKETS.map((market) =>
-          OpenOrders.load(connection, market.address, wallet.publicKey),
+        programIds.map((programId) =>
+          OpenOrders.findForOwner(connection, wallet.publicKey, programId),
         ),
       )
-    ).flat();
+    )
+      .flat()
+      .filter((account) => marketAddresses.has(account.market.toBase58()));
   };
   return useAsyncData(
     getAllOpenOrdersAccounts,
@@ -630,7 +839,6 @@ export function useAllOpenOrdersAccounts() {
       connected,
       wallet?.publicKey?.toBase58(),
       marketInfos.length,
-      (USE_MARKETS || []).length,
     ),
     { refreshInterval: _SLOW_REFRESH_INTERVAL },
   );
@@ -697,63 +905,303 @@ export function useAllOpenOrdersBalances() {
   return openOrdersBalances;
 }
 
-export const useAllOpenOrders = (): {
+// Maximum number of accounts per getMultipleAccounts request
+const MAX_MULTIPLE_ACCOUNTS = 100;
+
+// Orderbooks loaded at the same time on the first load of markets
+const MAX_CONCURRENT_ORDERBOOK_LOADS = 4;
+
+// How often the owner's open orders accounts are looked up again, so that
+// accounts opened since then are found
+const _OPEN_ORDERS_DISCOVERY_INTERVAL = 60 * 1000;
+
+// Accounts of a market that do not change between refreshes
+interface StaticMarketAccounts {
+  market: Market;
+  marketState: MarketState;
+}
+
+// Loaded once per market, so that adding a market only loads that market
+const staticMarketAccounts: Map<
+  any,
+  Promise<StaticMarketAccounts | null>
+> = new Map();
+
+// Addresses of the owner's open orders accounts by market
+const openOrdersAddresses: Map<
+  any,
+  {
+    addresses: Promise<{ [market: string]: PublicKey[] }>;
+    loadedAt: number;
+  }
+> = new Map();
+
+async function getAccountInfos(
+  connection: Connection,
+  addresses: PublicKey[],
+): Promise<{ [address: string]: AccountInfo<Buffer> | null }> {
+  const accountInfos: { [address: string]: AccountInfo<Buffer> | null } = {};
+  for (let i = 0; i < addresses.length; i += MAX_MULTIPLE_ACCOUNTS) {
+    const result = await getMultipleSolanaAccounts(
+      connection,
+      addresses.slice(i, i + MAX_MULTIPLE_ACCOUNTS),
+    );
+    Object.assign(accountInfos, result.value);
+  }
+  return accountInfos;
+}
+
+/**
+ * Finds the open orders accounts of `owner` on every market of the
+ * programs with one getProgramAccounts each.
+ */
+function findOpenOrdersAddresses(
+  connection: Connection,
+  programIds: PublicKey[],
+  owner: PublicKey,
+): Promise<{ [market: string]: PublicKey[] }> {
+  const key = tuple(
+    connection,
+    owner.toBase58(),
+    programIds.map((programId) => programId.toBase58()).join(),
+  );
+  const cached = openOrdersAddresses.get(key);
+  if (
+    cached &&
+    Date.now() - cached.loadedAt < _OPEN_ORDERS_DISCOVERY_INTERVAL
+  ) {
+    return cached.addresses;
+  }
+  const addresses = (async () => {
+    try {
+      const accounts = (
+        await Promise.all(
+          programIds.map((programId) =>
+            OpenOrders.findForOwner(connection, owner, programId),
+          ),
+        )
+      ).flat();
+      const addressesByMarket: { [market: string]: PublicKey[] } = {};
+      for (const account of accounts) {
+        const market = account.market.toBase58();
+        addressesByMarket[market] = [
+          ...(addressesByMarket[market] || []),
+          account.address,
+        ];
+      }
+      return addressesByMarket;
+    } catch (e) {
+      openOrdersAddresses.delete(key);
+      throw e;
+    }
+  })();
+  openOrdersAddresses.set(key, { addresses, loadedAt: Date.now() });
+  return addresses;
+}
+
+/**
+ * Decodes the market accounts fetched together with their mints, then
+ * loads the orderbook states a few at a time.
+ */
+async function loadMarkets(
+  connection: Connection,
+  marketInfos: MarketInfo[],
+): Promise<(StaticMarketAccounts | null)[]> {
+  const marketAccountInfos = await getAccountInfos(
+    connection,
+    marketInfos.map(({ address }) => address),
+  );
+  const decodedMarkets = marketInfos.map(({ address, programId, name }) => {
+    const accountInfo = marketAccountInfos[address.toBase58()];
+    if (!accountInfo) {
+      console.warn(`Market ${name} not found`);
+      return null;
+    }
+    try {
+      return Market.getLayout(programId).decode(accountInfo.data);
+    } catch (e) {
+      console.warn(`Error decoding market ${name} - ${e}`);
+      return null;
+    }
+  });
+  const mints = [
+    ...new Set(
+      decodedMarkets.flatMap((decoded) =>
+        decoded
+          ? [decoded.baseMint.toBase58(), decoded.quoteMint.toBase58()]
+          : [],
+      ),
+    ),
+  ].map((mint) => new PublicKey(mint));
+  const mintAccountInfos = await getAccountInfos(connection, mints);
+  const getDecimals = (mint: PublicKey) => {
+    const accountInfo = mintAccountInfos[mint.toBase58()];
+    return accountInfo ? parseTokenMintData(accountInfo.data).decimals : null;
+  };
+
+  return await mapWithConcurrency(
+    marketInfos,
+    MAX_CONCURRENT_ORDERBOOK_LOADS,
+    async (marketInfo, i) => {
+      const decoded = decodedMarkets[i];
+      const baseMintDecimals = decoded && getDecimals(decoded.baseMint);
+      const quoteMintDecimals = decoded && getDecimals(decoded.quoteMint);
+      if (!decoded || baseMintDecimals === null || quoteMintDecimals === null) {
+        return null;
+      }
+      try {
+        const orderbook = await Orderbook.load(connection, marketInfo.address);
+        return {
+          market: new Market(
+            decoded,
+            baseMintDecimals,
+            quoteMintDecimals,
+            {},
+            marketInfo.programId,
+          ),
+          marketState: orderbook.market,
+        };
+      } catch (e) {
+        console.warn(`Error loading market ${marketInfo.name} - ${e}`);
+        return null;
+      }
+    },
+  );
+}
+
+function loadStaticMarketAccounts(
+  connection: Connection,
+  marketInfos: MarketInfo[],
+): Promise<(StaticMarketAccounts | null)[]> {
+  const getKey = (marketInfo: MarketInfo) =>
+    tuple(connection, marketInfo.address.toBase58());
+  const missing = marketInfos.filter(
+    (marketInfo) => !staticMarketAccounts.has(getKey(marketInfo)),
+  );
+  if (missing.length > 0) {
+    const loaded = loadMarkets(connection, missing);
+    missing.forEach((marketInfo, i) => {
+      const key = getKey(marketInfo);
+      staticMarketAccounts.set(
+        key,
+        loaded
+          .then((accounts) => accounts[i])
+          .catch((e) => {
+            console.warn(`Error loading market ${marketInfo.name} - ${e}`);
+            return null;
+          })
+          .then((accounts) => {
+            // Failed markets are loaded again on the next refresh
+            if (!accounts) {
+              staticMarketAccounts.delete(key);
+            }
+            return accounts;
+          }),
+      );
+    });
+  }
+  return Promise.all(
+    marketInfos.map(
+      (marketInfo) =>
+        staticMarketAccounts.get(
+          getKey(marketInfo),
+        ) as Promise<StaticMarketAccounts | null>,
+    ),
+  );
+}
+
+/**
+ * Loads the owner's open orders on every market. The open orders accounts
+ * are found with one getProgramAccounts, and only the markets that have
+ * one are loaded. Their orderbook slabs and open orders accounts are then
+ * fetched together with getMultipleAccounts.
+ */
+async function loadAllOpenOrders(
+  connection: Connection,
+  marketInfos: MarketInfo[],
+  owner: PublicKey,
+): Promise<{ orders: Order[]; marketAddress: string }[]> {
+  const programIds = [
+    ...new Set(marketInfos.map(({ programId }) => programId.toBase58())),
+  ].map((programId) => new PublicKey(programId));
+  const addressesByMarket = await findOpenOrdersAddresses(
+    connection,
+    programIds,
+    owner,
+  );
+  const tradedMarketInfos = marketInfos.filter(
+    ({ address }) => addressesByMarket[address.toBase58()],
+  );
+  const allMarketAccounts = (
+    await loadStaticMarketAccounts(connection, tradedMarketInfos)
+  ).filter((accounts): accounts is StaticMarketAccounts => !!accounts);
+
+  const getOpenOrdersAddresses = (market: Market) =>
+    addressesByMarket[market.address.toBase58()] || [];
+  const accountInfos = await getAccountInfos(
+    connection,
+    allMarketAccounts.flatMap(({ market, marketState }) => [
+      marketState.bids,
+      marketState.asks,
+      ...getOpenOrdersAddresses(market),
+    ]),
+  );
+
+  return allMarketAccounts.map(({ market, marketState }) => {
+    const bids = accountInfos[marketState.bids.toBase58()];
+    const asks = accountInfos[marketState.asks.toBase58()];
+    if (!bids || !asks) {
+      return { orders: [], marketAddress: market.address.toBase58() };
+    }
+    const orderbook = new Orderbook(
+      marketState,
+      Slab.deserialize(bids.data, marketState.callBackInfoLen),
+      Slab.deserialize(asks.data, marketState.callBackInfoLen),
+    );
+    const orders = getOpenOrdersAddresses(market).flatMap((address) => {
+      const accountInfo = accountInfos[address.toBase58()];
+      return accountInfo
+        ? market.filterForOpenOrders(
+            orderbook,
+            OpenOrders.fromAccountInfo(address, accountInfo, market.programId),
+          )
+        : [];
+    });
+    return { orders, marketAddress: market.address.toBase58() };
+  });
+}
+
+export function useAllOpenOrders(): {
   openOrders: { orders: Order[]; marketAddress: string }[] | null | undefined;
   loaded: boolean;
   refreshOpenOrders: () => void;
-} => {
+} {
   const connection = useConnection();
   const { connected, wallet } = useWallet();
-  const [loaded, setLoaded] = useState(false);
-  const [refresh, setRefresh] = useState(0);
-  const [openOrders, setOpenOrders] = useState<
-    { orders: Order[]; marketAddress: string }[] | null | undefined
-  >(null);
-  const [lastRefresh, setLastRefresh] = useState(0);
-
-  const refreshOpenOrders = () => {
-    if (new Date().getTime() - lastRefresh > 10 * 1000) {
-      setRefresh((prev) => prev + 1);
-    } else {
-      console.log('not refreshing');
-    }
-  };
+  const marketInfos = useMarketInfos();
+  const cacheKey = tuple(
+    'getAllOpenOrders',
+    connection,
+    connected,
+    wallet?.publicKey?.toBase58(),
+    marketInfos.map((marketInfo) => marketInfo.address.toBase58()).join(),
+  );
 
-  useEffect(() => {
-    if (connected && wallet) {
-      const getAllOpenOrders = async () => {
-        setLoaded(false);
-        const _openOrders: { orders: Order[]; marketAddress: string }[] = [];
-        const getOpenOrdersForMarket = async (marketInfo: MarketInfo) => {
-          await sleep(1000 * Math.random()); // Try not to hit rate limit
-          try {
-            const market = await Market.load(connection, marketInfo.address);
-            const orders = await market.loadOrdersForOwner(
-              connection,
-              wallet?.publicKey,
-            );
-            _openOrders.push({
-              orders: orders,
-              marketAddress: marketInfo.address.toBase58(),
-            });
-          } catch (e) {
-            console.warn(`Error loading open order ${marketInfo.name} - ${e}`);
-          }
-        };
-        await Promise.all(USE_MARKETS.map((m) => getOpenOrdersForMarket(m)));
-        setOpenOrders(_openOrders);
-        setLastRefresh(new Date().getTime());
-        setLoaded(true);
-      };
-      getAllOpenOrders();
+  async function getAllOpenOrders() {
+    if (!connected || !wallet) {
+      return null;
     }
-  }, [connection, connected, wallet, refresh]);
+    return await loadAllOpenOrders(connection, marketInfos, wallet.publicKey);
+  }
+  const [openOrders, loaded] = useAsyncData(getAllOpenOrders, cacheKey, {
+    refreshInterval: _SLOW_REFRESH_INTERVAL,
+  });
   return {
-    openOrders: openOrders,
-    loaded: loaded,
-    refreshOpenOrders: refreshOpenOrders,
+    openOrders,
+    loaded,
+    refreshOpenOrders: () => refreshCache(cacheKey),
   };
-};
+}
 
 export function useBalances(): Balances[] {
   const baseCurrencyBalances = useSelectedBaseCurrencyBalances();
@@ -1056,6 +1504,7 @@ export function useWalletBalancesForAllMarkets(): {
 
 export function getMarketInfos(
   customMarkets: CustomMarketInfo[],
+  registryMarkets: MarketInfo[],
 ): MarketInfo[] {
   const customMarketsInfo = customMarkets.map((m) => ({
     ...m,
@@ -1064,79 +1513,111 @@ export function getMarketInfos(
     deprecated: false,
   }));
 
-  return [...customMarketsInfo, ...USE_MARKETS];
+  // Custom markets take precedence over registry entries with the same address
+  return [
+    ...customMarketsInfo,
+    ...registryMarkets.filter(
+      (market) =>
+        !customMarketsInfo.some((m) => m.address.equals(market.address)),
+    ),
+  ];
 }
 
 export function useMarketInfos() {
   const { customMarkets } = useCustomMarkets();
-  return getMarketInfos(customMarkets);
+  const [{ markets }] = useMarketRegistry();
+  return getMarketInfos(customMarkets, markets);
+}
+
+export interface ExpectedFill {
+  avgPrice: number;
+  worstPrice: number;
+  filledSize: number;
 }
 
 /**
- * If selling, choose min tick size. If buying choose a price
- * s.t. given the state of the orderbook, the order will spend
- * `cost` cost currency.
+ * Walks orderbook levels, best price first, until `size` is filled.
  *
- * @param orderbook serum Orderbook object
- * @param cost quantity to spend. Base currency if selling,
- *  quote currency if buying.
- * @param tickSizeDecimals size of price increment of the market
+ * @param levels [price, size] pairs as returned by `useOrderbook`
+ * @param size quantity to fill, in base currency
+ * @returns the average and worst price paid and how much of `size` the
+ *  levels can absorb, or null if there is no liquidity
  */
-// export function getMarketOrderPrice(
-//   orderbook: Orderbook,
-//   cost: number,
-//   tickSizeDecimals?: number,
-// ) {
-//   if (orderbook.isBids) {
-//     return orderbook.market.tickSize;
-//   }
-//   let spentCost = 0;
-//   let price, sizeAtLevel, costAtLevel: number;
-//   const asks = orderbook.getL2(1000);
-//   for ([price, sizeAtLevel] of asks) {
-//     costAtLevel = price * sizeAtLevel;
-//     if (spentCost + costAtLevel > cost) {
-//       break;
-//     }
-//     spentCost += costAtLevel;
-//   }
-//   const sendPrice = Math.min(price * 1.02, asks[0][0] * 1.05);
-//   let formattedPrice;
-//   if (tickSizeDecimals) {
-//     formattedPrice = floorToDecimal(sendPrice, tickSizeDecimals);
-//   } else {
-//     formattedPrice = sendPrice;
-//   }
-//   return formattedPrice;
-// }
-
-export function getExpectedFillPrice(
-  orderbook: Orderbook,
-  cost: number,
-  asks: boolean,
-  tickSizeDecimals?: number,
-) {
-  let spentCost = 0;
-  let avgPrice = 0;
-  let price, sizeAtLevel, costAtLevel: number;
-  for (price of orderbook.getL2(1000, asks)) {
-    costAtLevel = (!asks ? 1 : price) * sizeAtLevel;
-    if (spentCost + costAtLevel > cost) {
-      avgPrice += (cost - spentCost) * price;
-      spentCost = cost;
+export function getExpectedFill(
+  levels: number[][],
+  size: number,
+): ExpectedFill | null {
+  let filledSize = 0;
+  let filledCost = 0;
+  let worstPrice: number | null = null;
+  for (const [price, sizeAtLevel] of levels) {
+    if (filledSize >= size) {
       break;
     }
-    avgPrice += costAtLevel * price;
-    spentCost += costAtLevel;
+    const fillAtLevel = Math.min(sizeAtLevel, size - filledSize);
+    filledSize += fillAtLevel;
+    filledCost += fillAtLevel * price;
+    worstPrice = price;
   }
-  const totalAvgPrice = avgPrice / Math.min(cost, spentCost);
-  let formattedPrice;
-  if (tickSizeDecimals) {
-    formattedPrice = floorToDecimal(totalAvgPrice, tickSizeDecimals);
-  } else {
-    formattedPrice = totalAvgPrice;
+  if (worstPrice === null || filledSize === 0) {
+    return null;
   }
-  return formattedPrice;
+  return { avgPrice: filledCost / filledSize, worstPrice, filledSize };
+}
+
+export interface MarketOrderPrice extends ExpectedFill {
+  // Limit price to send with the IOC order
+  price: number;
+  // Relative distance between the average fill and the best price
+  slippage: number;
+  withinSlippage: boolean;
+  fullyFillable: boolean;
+}
+
+/**
+ * Computes the limit price of a market order. The order is sent as IOC at the
+ * best price moved by `maxSlippage`, so it can never fill worse than that even
+ * if the book changes before it lands.
+ *
+ * @param orderbook bids and asks as returned by `useOrderbook`
+ * @param side side of the market order
+ * @param size quantity to fill, in base currency
+ * @param maxSlippage maximum accepted slippage, as a fraction (0.01 = 1%)
+ * @param tickSize price increment of the market
+ */
+export function getMarketOrderPrice(
+  orderbook: { bids: number[][]; asks: number[][] },
+  side: 'buy' | 'sell',
+  size: number,
+  maxSlippage: number,
+  tickSize?: number,
+): MarketOrderPrice | null {
+  const levels = side === 'buy' ? orderbook.asks : orderbook.bids;
+  const fill = getExpectedFill(levels, size);
+  if (!fill) {
+    return null;
+  }
+  const bestPrice = levels[0][0];
+  let price =
+    side === 'buy'
+      ? bestPrice * (1 + maxSlippage)
+      : bestPrice * (1 - maxSlippage);
+  if (tickSize) {
+    // Round towards the best price so the guard is never loosened
+    price =
+      side === 'buy'
+        ? Math.floor(price / tickSize + 1e-9) * tickSize
+        : Math.max(Math.ceil(price / tickSize - 1e-9) * tickSize, tickSize);
+    price = roundToDecimal(price, getDecimalCount(tickSize));
+  }
+  return {
+    ...fill,
+    price,
+    slippage: Math.abs(fill.avgPrice - bestPrice) / bestPrice,
+    withinSlippage:
+      side === 'buy' ? fill.worstPrice <= price : fill.worstPrice >= price,
+    fullyFillable: fill.filledSize >= size - 1e-9,
+  };
 }
 
 export function useCurrentlyAutoSettling(): [
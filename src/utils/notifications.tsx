@@ -1,17 +1,20 @@
 import React from 'react';
 import { notification } from 'antd';
 import Link from '../components/Link';
+import { getExplorerUrl } from './explorer';
 
 export function notify({
   message,
   description,
   txid,
+  logs,
   type = 'info',
   placement = 'bottomLeft',
 }: {
   message: string;
   description?: string | JSX.Element;
   txid?: string;
+  logs?: string[];
   type?: string;
   placement?: string;
 }) {
@@ -19,19 +22,42 @@ export function notify({
     description = (
       <Link
         external
-        to={'https://solscan.io/tx/' + txid}
+        to={getExplorerUrl('tx', txid)}
         style={{ color: '#0000ff' }}
       >
         View transaction {txid.slice(0, 8)}...{txid.slice(txid.length - 8)}
       </Link>
     );
   }
+  if (logs && logs.length > 0) {
+    description = (
+      <>
+        {description}
+        <details>
+          <summary>Program logs</summary>
+          <pre
+            style={{
+              fontSize: 10,
+              maxHeight: 200,
+              overflow: 'auto',
+              whiteSpace: 'pre-wrap',
+              wordBreak: 'break-all',
+            }}
+          >
+            {logs.join('\n')}
+          </pre>
+        </details>
+      </>
+    );
+  }
   notification[type]({
     message: <span style={{ color: 'black' }}>{message}</span>,
     description: (
       <span style={{ color: 'black', opacity: 0.5 }}>{description}</span>
     ),
     placement,
+    // Keep notifications with logs open so that they can be read
+    duration: logs && logs.length > 0 ? 0 : undefined,
     style: {
       backgroundColor: 'white',
     },
@@ -0,0 +1,82 @@
+import { DEX_ID } from '@project-serum/serum';
+import { Keypair } from '@solana/web3.js';
+import { decodeTransactionError } from './programErrors';
+
+const dex = DEX_ID.toBase58();
+const orderbook = Keypair.generate().publicKey.toBase58();
+
+describe('decodeTransactionError', () => {
+  test('names dex errors from the program logs', () => {
+    expect(
+      decodeTransactionError(null, [
+        `Program ${dex} invoke [1]`,
+        `Program ${dex} failed: custom program error: 0x6`,
+      ]),
+    ).toBe('Insufficient funds');
+    expect(
+      decodeTransactionError(null, [
+        `Program ${dex} failed: custom program error: 0x1`,
+      ]),
+    ).toBe('Too many open orders on this market');
+  });
+
+  test('names dex errors from the instruction error', () => {
+    expect(
+      decodeTransactionError({ InstructionError: [0, { Custom: 4 }] }, null, [
+        DEX_ID,
+      ]),
+    ).toBe('Order not found, it may have already been filled or cancelled');
+  });
+
+  test('names orderbook errors raised under the dex', () => {
+    expect(
+      decodeTransactionError(null, [
+        `Program ${dex} invoke [1]`,
+        `Program ${orderbook} invoke [2]`,
+        `Program ${orderbook} failed: custom program error: 0xa`,
+        `Program ${dex} failed: custom program error: 0xa`,
+      ]),
+    ).toBe('Orderbook is full');
+  });
+
+  test('names errors logged by the programs', () => {
+    expect(
+      decodeTransactionError(null, [
+        `Program ${dex} invoke [1]`,
+        'Program log: Error: WouldSelfTrade',
+        `Program ${dex} failed: custom program error: 0x2`,
+      ]),
+    ).toBe('Order would match one of your own orders');
+    expect(
+      decodeTransactionError(null, [
+        'Program log: Event queue is full',
+        `Program ${dex} failed: custom program error: 0x2`,
+      ]),
+    ).toBe('Event queue is full, the market needs to be cranked');
+  });
+
+  test('ignores log lines that only mention an error', () => {
+    expect(
+      decodeTransactionError(null, [
+        `Program ${dex} invoke [1]`,
+        'Program log: Tick size 100, min base order size 1',
+        'Program log: Checking that the event queue is not empty',
+        `Program ${dex} failed: custom program error: 0x6`,
+      ]),
+    ).toBe('Insufficient funds');
+    expect(
+      decodeTransactionError(null, [
+        'Program log: Order would not self trade',
+        `Program ${dex} failed: custom program error: 0x1`,
+      ]),
+    ).toBe('Too many open orders on this market');
+  });
+
+  test('falls back to the code for unknown dex errors', () => {
+    expect(
+      decodeTransactionError(null, [
+        `Program ${dex} failed: custom program error: 0x64`,
+      ]),
+    ).toBe('Dex error 100');
+  });
+});
@@ -0,0 +1,229 @@
+import { DEX_ID } from '@project-serum/serum';
+import { PublicKey, SystemProgram } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+
+/** Error thrown by the send pipeline, carries the program logs if any. */
+export class TransactionError extends Error {
+  logs?: string[];
+  txid?: string;
+
+  constructor(message: string, logs?: string[] | null, txid?: string) {
+    super(message);
+    this.name = 'TransactionError';
+    this.logs = logs || undefined;
+    this.txid = txid;
+  }
+}
+
+/** The blockhash of the transaction expired before it landed. */
+export class TransactionExpiredError extends TransactionError {
+  constructor(txid: string) {
+    super(
+      'Transaction expired before it was confirmed, nothing was executed',
+      null,
+      txid,
+    );
+    this.name = 'TransactionExpiredError';
+  }
+}
+
+// Indexed by error code, see spl-token's TokenError
+const TOKEN_PROGRAM_ERRORS = [
+  'Account does not have enough SOL to be rent exempt',
+  'Insufficient funds',
+  'Invalid mint',
+  'Token account does not belong to this mint',
+  'Token account owner does not match',
+  'Token supply is fixed',
+  'Token account is already in use',
+  'Invalid number of provided signers',
+  'Invalid number of required signers',
+  'Token account is not initialized',
+  'Instruction does not support native tokens',
+  'Non-native account can only be closed if its balance is zero',
+  'Invalid token instruction',
+  'Token account is in an invalid state',
+  'Token amount overflow',
+  'Authority type not supported for this account',
+  'This token mint cannot freeze accounts',
+  'Token account is frozen',
+  'Token decimals do not match the mint',
+];
+
+// Indexed by error code, see SystemError
+const SYSTEM_PROGRAM_ERRORS = [
+  'Account is already in use',
+  'Insufficient SOL balance',
+  'Cannot assign account to this program',
+  'Account data size is invalid',
+  'Account does not match the seed',
+  'Address does not match the seed',
+  'Nonce account is not advanced',
+  'Nonce account blockhash is invalid',
+  'Nonce account blockhash has not changed',
+];
+
+// Indexed by error code, see DexError in dex-v3
+const DEX_PROGRAM_ERRORS = [
+  'Invalid order index',
+  'Too many open orders on this market',
+  'Order was aborted before it was placed',
+  'Open orders account is missing',
+  'Order not found, it may have already been filled or cancelled',
+  'Nothing to do',
+  'Insufficient funds',
+  'Open orders account still has orders or unsettled funds',
+  'Market still has open orders',
+];
+
+// Indexed by error code, see AoError in the agnostic orderbook
+const ORDERBOOK_PROGRAM_ERRORS = [
+  'Orderbook is already initialized',
+  'Wrong bids account',
+  'Wrong asks account',
+  'Wrong event queue account',
+  'Wrong orderbook caller authority',
+  'Event queue is full, the market needs to be cranked',
+  'Order not found, it may have already been filled or cancelled',
+  'Order would match one of your own orders',
+  'Orderbook still has open orders',
+  'Event queue is already filled',
+  'Orderbook is full',
+];
+
+// The dex and the orderbook log the name of their error before failing, so
+// these are matched against the start of the logged message, after an
+// optional `Error:` prefix. Other log lines mentioning the same words are not
+// errors.
+const LOGGED_ERRORS: [RegExp, string][] = [
+  [/^(insufficient|out ?of) ?funds\b/i, 'Insufficient funds'],
+  [/^(price ?)?(is ?)?not ?on ?tick\b/i, 'Price is not on tick'],
+  [
+    /^(min(imum)? ?(base ?)?order ?size|order ?size ?too ?small)\b/i,
+    'Order size is below the market minimum',
+  ],
+  [/^(would ?)?self ?trade\b/i, 'Order would match one of your own orders'],
+  [
+    /^post ?only ?(order ?)?would ?match\b/i,
+    'Post only order would match an existing order',
+  ],
+  [
+    /^(slab ?(is ?)?(full|out ?of ?space)|orderbook ?(is ?)?full)\b/i,
+    'Orderbook is full',
+  ],
+  [
+    /^event ?queue ?(is ?)?full\b/i,
+    'Event queue is full, the market needs to be cranked',
+  ],
+  [
+    /^(user ?account|open ?orders( ?account)?) ?(is ?)?still ?active\b/i,
+    'Open orders account still has orders or unsettled funds',
+  ],
+  [
+    /^order ?not ?found\b/i,
+    'Order not found, it may have already been filled or cancelled',
+  ],
+];
+
+const LOGGED_ERROR_PREFIX = /^Program log: (Error:? ?)?/;
+
+// Top level transaction errors, see TransactionError in the Solana runtime
+const TRANSACTION_ERRORS: { [error: string]: string } = {
+  AccountNotFound: 'Wallet not found on chain, fund it with SOL first',
+  InsufficientFundsForFee: 'Insufficient SOL to pay the transaction fee',
+  BlockhashNotFound: 'Transaction expired, please try again',
+  AlreadyProcessed: 'Transaction was already processed',
+  AccountInUse: 'An account is in use by another transaction, please retry',
+};
+
+const FAILED_LOG = /^Program (\w+) failed: (.*)$/;
+const CUSTOM_ERROR = /custom program error: 0x([0-9a-f]+)/i;
+
+function humanize(name: string) {
+  return name.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+}
+
+function getCustomErrorMessage(
+  programId: string,
+  code: number,
+  callerId?: string,
+) {
+  if (programId === TOKEN_PROGRAM_ID.toBase58() && TOKEN_PROGRAM_ERRORS[code]) {
+    return TOKEN_PROGRAM_ERRORS[code];
+  }
+  if (
+    programId === SystemProgram.programId.toBase58() &&
+    SYSTEM_PROGRAM_ERRORS[code]
+  ) {
+    return SYSTEM_PROGRAM_ERRORS[code];
+  }
+  // The dex calls the orderbook program, whose errors have their own codes
+  if (
+    programId !== DEX_ID.toBase58() &&
+    callerId === DEX_ID.toBase58() &&
+    ORDERBOOK_PROGRAM_ERRORS[code]
+  ) {
+    return ORDERBOOK_PROGRAM_ERRORS[code];
+  }
+  if (programId === DEX_ID.toBase58()) {
+    return DEX_PROGRAM_ERRORS[code] || `Dex error ${code}`;
+  }
+  return `Program ${programId} failed with error ${code}`;
+}
+
+/**
+ * Turns a transaction error and its program logs into a message that can be
+ * shown to the user. Logs take precedence since they name the failing
+ * program, `programIds` of the instructions are used to find it from the
+ * error otherwise.
+ */
+export function decodeTransactionError(
+  err: any,
+  logs?: string[] | null,
+  programIds?: PublicKey[],
+): string {
+  if (logs) {
+    for (const log of logs) {
+      if (!log.startsWith('Program log: ')) {
+        continue;
+      }
+      const message = log.replace(LOGGED_ERROR_PREFIX, '');
+      const match = LOGGED_ERRORS.find(([pattern]) => pattern.test(message));
+      if (match) {
+        return match[1];
+      }
+    }
+    // Inner programs fail first, and the programs calling them then fail
+    // with the same error
+    const failures = logs
+      .map((log) => log.match(FAILED_LOG))
+      .filter((failed): failed is RegExpMatchArray => !!failed);
+    if (failures.length > 0) {
+      const [, programId, error] = failures[0];
+      const custom = error.match(CUSTOM_ERROR);
+      if (!custom) {
+        return error;
+      }
+      return getCustomErrorMessage(
+        programId,
+        parseInt(custom[1], 16),
+        failures[1]?.[1],
+      );
+    }
+  }
+
+  if (typeof err === 'string') {
+    return TRANSACTION_ERRORS[err] || humanize(err);
+  }
+  if (err && err.InstructionError) {
+    const [index, error] = err.InstructionError;
+    const programId = programIds?.[index]?.toBase58();
+    if (error && typeof error === 'object' && 'Custom' in error) {
+      return programId
+        ? getCustomErrorMessage(programId, error.Custom)
+        : `Instruction ${index} failed with error ${error.Custom}`;
+    }
+    return `Instruction ${index} failed: ${humanize(String(error))}`;
+  }
+  return err instanceof Error ? err.message : JSON.stringify(err);
+}
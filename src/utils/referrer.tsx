@@ -1,6 +1,6 @@
 import React, { useContext, useEffect, useState } from 'react';
 import { useConnection } from './connection';
-import { PublicKey } from '@solana/web3.js';
+import { Connection, PublicKey } from '@solana/web3.js';
 import {
   NameRegistryState,
   getHashedName,
@@ -60,6 +60,23 @@ export const getInputKey = async (input: string) => {
   return { inputDomainKey: inputDomainKey, hashedInputName: hashed_input_name };
 };
 
+/** The owner of a .sol domain, or the address itself for a public key. */
+export async function resolveAddress(
+  connection: Connection,
+  input: string,
+): Promise<PublicKey> {
+  input = input.trim();
+  if (input.endsWith('.sol')) {
+    const { inputDomainKey } = await getInputKey(input.slice(0, -4));
+    const nameRegistryState = await NameRegistryState.retrieve(
+      connection,
+      inputDomainKey,
+    );
+    return nameRegistryState.owner;
+  }
+  return new PublicKey(input);
+}
+
 export const useFeesAccountsFromRefCode = (refCode: string | undefined) => {
   const connection = useConnection();
   const [usdc, setUsdc] = useState<PublicKey | undefined>(undefined);
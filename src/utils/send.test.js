@@ -0,0 +1,188 @@
+import { Keypair, Transaction, TransactionInstruction } from '@solana/web3.js';
+import { placeOrder, settleFunds } from './send';
+import { KeypairWalletAdapter } from '../wallet-adapters';
+
+const DEX_PROGRAM_ID = Keypair.generate().publicKey;
+const GENESIS_HASH = Keypair.generate().publicKey.toBase58();
+
+function makeConnection() {
+  const sent = [];
+  return {
+    sent,
+    getLatestBlockhash: jest.fn(async () => ({
+      blockhash: Keypair.generate().publicKey.toBase58(),
+      lastValidBlockHeight: 1000,
+    })),
+    getBlockHeight: jest.fn(async () => 1),
+    getGenesisHash: jest.fn(async () => GENESIS_HASH),
+    sendRawTransaction: jest.fn(async (rawTransaction) => {
+      sent.push(Transaction.from(rawTransaction));
+      return `txid${sent.length}`;
+    }),
+    onSignature: jest.fn(() => 0),
+    removeSignatureListener: jest.fn(),
+    getSignatureStatuses: jest.fn(async (txids) => ({
+      value: txids.map(() => ({
+        err: null,
+        confirmations: 1,
+        confirmationStatus: 'confirmed',
+      })),
+    })),
+  };
+}
+
+function makeInstruction(owner, tag) {
+  return new TransactionInstruction({
+    programId: DEX_PROGRAM_ID,
+    keys: [{ pubkey: owner, isSigner: true, isWritable: true }],
+    data: Buffer.from([tag]),
+  });
+}
+
+function makeMarket() {
+  return {
+    address: Keypair.generate().publicKey,
+    baseMintAddress: Keypair.generate().publicKey,
+    quoteMintAddress: Keypair.generate().publicKey,
+    minOrderSize: 0.1,
+    tickSize: 0.01,
+    makePlaceOrderTransaction: jest.fn(async (...args) =>
+      new Transaction().add(makeInstruction(args[6], 1)),
+    ),
+    makeSettleFundsTransaction: jest.fn(async (owner) =>
+      new Transaction().add(makeInstruction(owner, 2)),
+    ),
+  };
+}
+
+function getDexInstructions(transaction) {
+  return transaction.instructions.filter(({ programId }) =>
+    programId.equals(DEX_PROGRAM_ID),
+  );
+}
+
+let wallet;
+
+beforeEach(async () => {
+  localStorage.clear();
+  // Keeps the priority fee lookup out of the mocked connection
+  localStorage.setItem(
+    'computeBudget',
+    JSON.stringify({ priorityFeeMode: 'off', computeUnitLimit: null }),
+  );
+  wallet = new KeypairWalletAdapter();
+  await wallet.connect();
+});
+
+describe('placeOrder', () => {
+  test('signs, sends and confirms the order with the keypair wallet', async () => {
+    const connection = makeConnection();
+    const market = makeMarket();
+
+    const txid = await placeOrder({
+      side: 'buy',
+      price: 1.5,
+      size: 2,
+      orderType: 'limit',
+      market,
+      connection,
+      wallet,
+      baseCurrencyAccount: Keypair.generate().publicKey,
+      quoteCurrencyAccount: Keypair.generate().publicKey,
+      feeDiscountPubkey: undefined,
+    });
+
+    expect(txid).toBe('txid1');
+    const [price, size] = market.makePlaceOrderTransaction.mock.calls[0].slice(
+      1,
+      3,
+    );
+    expect(price).toBe(1.5);
+    expect(size).toBe(2);
+    const [transaction] = connection.sent;
+    expect(transaction.feePayer.equals(wallet.publicKey)).toBe(true);
+    expect(transaction.verifySignatures()).toBe(true);
+    expect(getDexInstructions(transaction)).toHaveLength(1);
+
+    const [entry] = JSON.parse(
+      localStorage.getItem(
+        `transactionLog:${wallet.publicKey.toBase58()}:${GENESIS_HASH}`,
+      ),
+    );
+    expect(entry).toMatchObject({
+      txid,
+      kind: 'placeOrder',
+      status: 'confirmed',
+    });
+  });
+
+  test('does not send orders off the tick size', async () => {
+    const connection = makeConnection();
+
+    const txid = await placeOrder({
+      side: 'sell',
+      price: 1.505,
+      size: 2,
+      orderType: 'limit',
+      market: makeMarket(),
+      connection,
+      wallet,
+      baseCurrencyAccount: Keypair.generate().publicKey,
+      quoteCurrencyAccount: Keypair.generate().publicKey,
+      feeDiscountPubkey: undefined,
+    });
+
+    expect(txid).toBeUndefined();
+    expect(connection.sendRawTransaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('settleFunds', () => {
+  test('signs, sends and confirms the settlement with the keypair wallet', async () => {
+    const connection = makeConnection();
+    const market = makeMarket();
+    const baseCurrencyAccount = { pubkey: Keypair.generate().publicKey };
+    const quoteCurrencyAccount = { pubkey: Keypair.generate().publicKey };
+
+    const txid = await settleFunds({
+      market,
+      openOrders: {},
+      connection,
+      wallet,
+      baseCurrencyAccount,
+      quoteCurrencyAccount,
+    });
+
+    expect(txid).toBe('txid1');
+    expect(market.makeSettleFundsTransaction).toHaveBeenCalledWith(
+      wallet.publicKey,
+      baseCurrencyAccount.pubkey,
+      quoteCurrencyAccount.pubkey,
+    );
+    const [transaction] = connection.sent;
+    expect(transaction.feePayer.equals(wallet.publicKey)).toBe(true);
+    expect(transaction.verifySignatures()).toBe(true);
+    expect(getDexInstructions(transaction)).toHaveLength(1);
+  });
+
+  test('reports a failed settlement', async () => {
+    const connection = makeConnection();
+    connection.getSignatureStatuses = jest.fn(async (txids) => ({
+      value: txids.map(() => ({
+        err: 'InsufficientFundsForFee',
+        confirmations: 1,
+      })),
+    }));
+
+    await expect(
+      settleFunds({
+        market: makeMarket(),
+        openOrders: {},
+        connection,
+        wallet,
+        baseCurrencyAccount: { pubkey: Keypair.generate().publicKey },
+        quoteCurrencyAccount: { pubkey: Keypair.generate().publicKey },
+      }),
+    ).rejects.toThrow('Insufficient SOL to pay the transaction fee');
+  });
+});
@@ -1,17 +1,42 @@
 import { notify } from './notifications';
-import { getDecimalCount, sleep } from './utils';
+import {
+  decodeTransactionError,
+  TransactionError,
+  TransactionExpiredError,
+} from './programErrors';
+import { recordTransaction, updateTransaction } from './transactionLog';
+import {
+  addComputeBudgetInstructions,
+  getComputeBudget,
+  getComputeBudgetInstructions,
+  getComputeBudgetPlaceholderInstructions,
+} from './computeBudget';
+import { getMarketLookupTable } from './marketRegistry';
+import { getConnectionCluster, getGenesisHash } from './connection';
+import {
+  getDecimalCount,
+  mapWithConcurrency,
+  setLocalStorageState,
+  sleep,
+} from './utils';
 import { getSelectedTokenAccountForMint } from './markets';
 import {
   Account,
   AccountInfo,
+  AddressLookupTableAccount,
+  AddressLookupTableProgram,
   Commitment,
   Connection,
   PublicKey,
   RpcResponseAndContext,
   SimulatedTransactionResponse,
+  SystemInstruction,
   SystemProgram,
   Transaction,
+  TransactionInstruction,
+  TransactionMessage,
   TransactionSignature,
+  VersionedTransaction,
 } from '@solana/web3.js';
 import {
   Token,
@@ -19,19 +44,28 @@ import {
   TOKEN_PROGRAM_ID,
 } from '@solana/spl-token';
 import BN from 'bn.js';
-// import {
-//   Market,
-//   OpenOrders,
-//   OrderType,
-//   SelfTradeBehavior,
-//   Side,
-// } from '@project-serum/serum';
-import { SelectedTokenAccounts, TokenAccount } from './types';
+import {
+  Cluster,
+  OrderWithMarketAndMarketName,
+  ComputeBudgetSettings,
+  SelectedTokenAccounts,
+  TokenAccount,
+  TransactionKind,
+} from './types';
 import { Buffer } from 'buffer';
 import assert from 'assert';
 import { struct } from 'superstruct';
+import {
+  createMarket,
+  DEX_ID,
+  Market,
+  OpenOrders,
+  OrderType,
+  SelfTradeBehavior,
+  Side,
+} from '@project-serum/serum';
 import { WalletAdapter } from '../wallet-adapters';
-import { TOKEN_MINTS, Order } from './markets';
+import { Order } from './markets';
 
 export async function createTokenAccountTransaction({
   connection,
@@ -76,6 +110,7 @@ export async function settleFunds({
   baseCurrencyAccount,
   quoteCurrencyAccount,
   sendNotification = true,
+  simulate = false,
   usdcRef = undefined,
   usdtRef = undefined,
 }: {
@@ -86,6 +121,7 @@ export async function settleFunds({
   baseCurrencyAccount: TokenAccount;
   quoteCurrencyAccount: TokenAccount;
   sendNotification?: boolean;
+  simulate?: boolean;
   usdcRef?: PublicKey;
   usdtRef?: PublicKey;
 }): Promise<string | undefined> {
@@ -102,7 +138,7 @@ export async function settleFunds({
     return;
   }
 
-  let createAccountTransaction: Transaction | undefined;
+  const createAccountInstructions: TransactionInstruction[] = [];
   let baseCurrencyAccountPubkey = baseCurrencyAccount?.pubkey;
   let quoteCurrencyAccountPubkey = quoteCurrencyAccount?.pubkey;
 
@@ -113,7 +149,7 @@ export async function settleFunds({
       mintPublicKey: market.baseMintAddress,
     });
     baseCurrencyAccountPubkey = result?.newAccountPubkey;
-    createAccountTransaction = result?.transaction;
+    createAccountInstructions.push(...result.transaction.instructions);
   }
   if (!quoteCurrencyAccountPubkey) {
     const result = await createTokenAccountTransaction({
@@ -122,7 +158,7 @@ export async function settleFunds({
       mintPublicKey: market.quoteMintAddress,
     });
     quoteCurrencyAccountPubkey = result?.newAccountPubkey;
-    createAccountTransaction = result?.transaction;
+    createAccountInstructions.push(...result.transaction.instructions);
   }
   let referrerQuoteWallet: PublicKey | null = null;
   // if (false) {
@@ -144,18 +180,164 @@ export async function settleFunds({
     quoteCurrencyAccountPubkey,
   );
 
-  let transaction = mergeTransactions([
-    createAccountTransaction,
-    settleFundsTransaction,
-  ]);
+  const [result] = await sendInstructionBatches({
+    groups: [
+      {
+        instructions: [
+          ...createAccountInstructions,
+          ...settleFundsTransaction.instructions,
+        ],
+      },
+    ],
+    wallet,
+    connection,
+    simulate,
+    sendingMessage: 'Settling funds',
+    sendNotification,
+    kind: 'settle',
+    describe: () => 'Settle funds',
+    getMarket: () => market.address,
+    resignOnExpiry: true,
+  });
+  if (result.error) {
+    throw new TransactionError(result.error, result.logs, result.txid);
+  }
+  return result.txid;
+}
 
-  return await sendTransaction({
-    transaction,
+export interface SettleFundsResult {
+  market: Market;
+  txid?: string;
+  error?: string;
+  logs?: string[];
+}
+
+/**
+ * Settles every open orders account with a free balance in one wallet
+ * prompt. Missing associated token accounts are created once per mint,
+ * ahead of the first settle that needs them. Returns one result per settled
+ * market, failed ones included, for the caller to report.
+ */
+export async function settleAllFunds({
+  connection,
+  wallet,
+  tokenAccounts,
+  markets,
+  openOrdersAccounts,
+  selectedTokenAccounts,
+  sendNotification = true,
+}: {
+  connection: Connection;
+  wallet: WalletAdapter;
+  tokenAccounts: TokenAccount[];
+  markets: Market[];
+  openOrdersAccounts: OpenOrders[];
+  selectedTokenAccounts?: SelectedTokenAccounts;
+  sendNotification?: boolean;
+}): Promise<SettleFundsResult[]> {
+  const marketsByAddress = Object.fromEntries(
+    markets.map((market) => [market.address.toBase58(), market]),
+  );
+  const createdAccounts: { [mint: string]: PublicKey } = {};
+  const settles: {
+    market: Market;
+    instructions: TransactionInstruction[];
+  }[] = [];
+
+  async function getTokenAccount(
+    mint: PublicKey,
+    instructions: TransactionInstruction[],
+  ) {
+    const existing = getSelectedTokenAccountForMint(
+      tokenAccounts,
+      mint,
+      selectedTokenAccounts && selectedTokenAccounts[mint.toBase58()],
+    );
+    if (existing) {
+      return existing.pubkey;
+    }
+    if (!createdAccounts[mint.toBase58()]) {
+      const {
+        transaction,
+        newAccountPubkey,
+      } = await createTokenAccountTransaction({
+        connection,
+        wallet,
+        mintPublicKey: mint,
+      });
+      instructions.push(...transaction.instructions);
+      createdAccounts[mint.toBase58()] = newAccountPubkey;
+    }
+    return createdAccounts[mint.toBase58()];
+  }
+
+  for (const openOrders of openOrdersAccounts) {
+    const market = marketsByAddress[openOrders.market.toBase58()];
+    if (
+      !market ||
+      (new BN(openOrders.baseTokenFree).isZero() &&
+        new BN(openOrders.quoteTokenFree).isZero())
+    ) {
+      continue;
+    }
+    const instructions: TransactionInstruction[] = [];
+    const baseCurrencyAccountPubkey = await getTokenAccount(
+      market.baseMintAddress,
+      instructions,
+    );
+    const quoteCurrencyAccountPubkey = await getTokenAccount(
+      market.quoteMintAddress,
+      instructions,
+    );
+    const settleFundsTransaction = await market.makeSettleFundsTransaction(
+      wallet.publicKey,
+      baseCurrencyAccountPubkey,
+      quoteCurrencyAccountPubkey,
+    );
+    instructions.push(...settleFundsTransaction.instructions);
+    settles.push({ market, instructions });
+  }
+  if (settles.length === 0) {
+    if (sendNotification) {
+      notify({ message: 'No unsettled funds' });
+    }
+    return [];
+  }
+
+  const lookupTables = await getMarketLookupTables(
+    connection,
+    wallet,
+    settles.map(({ market }) => market),
+  );
+  // Settles that use a token account created by an earlier one wait for it
+  const batchResults = await sendInstructionBatches({
+    groups: settles.map(({ instructions }) => ({ instructions })),
     wallet,
     connection,
-    sendingMessage: 'Settling funds...',
+    lookupTables,
+    concurrency:
+      Object.keys(createdAccounts).length > 0 ? 1 : MAX_CONCURRENT_SENDS,
+    sendingMessage: 'Settling funds',
     sendNotification,
+    kind: 'settle',
+    describe: (indices) =>
+      indices.length > 1
+        ? `Settle funds on ${indices.length} markets`
+        : 'Settle funds',
+    getMarket: (indices) =>
+      indices.length === 1 ? settles[indices[0]].market.address : undefined,
+    resignOnExpiry: true,
   });
+  const results: SettleFundsResult[] = batchResults.flatMap(
+    ({ indices, txid, error, logs }) =>
+      indices.map((index) => ({
+        market: settles[index].market,
+        txid,
+        error,
+        logs,
+      })),
+  );
+  return results;
 }
 
 export async function cancelOrder(params: {
@@ -164,7 +346,18 @@ export async function cancelOrder(params: {
   wallet: WalletAdapter;
   order: Order;
 }) {
-  return cancelOrders({ ...params, orders: [params.order] });
+  const [result] = await cancelOrders({ ...params, orders: [params.order] });
+  if (result.error) {
+    throw new TransactionError(result.error, result.logs, result.txid);
+  }
+  return result.txid;
+}
+
+export interface CancelOrderResult {
+  order: Order;
+  txid?: string;
+  error?: string;
+  logs?: string[];
 }
 
 export async function cancelOrders({
@@ -177,21 +370,170 @@ export async function cancelOrders({
   wallet: WalletAdapter;
   connection: Connection;
   orders: Order[];
-}) {
-  const transaction = new Transaction();
-  let i = 0;
-  for (let o of orders) {
-    transaction.add(
-      await market.makeCancelOrderInstruction(new BN(i), wallet.publicKey),
-    );
-    i += 1;
+}): Promise<CancelOrderResult[]> {
+  return cancelOrdersForMarkets({
+    wallet,
+    connection,
+    orders: orders.map((order) => ({
+      ...order,
+      market,
+      marketName: undefined,
+    })),
+  });
+}
+
+/**
+ * Cancels orders across any number of markets with a single wallet prompt.
+ *
+ * The dex cancels by position in the user account's order list, and removing
+ * an order moves the ones stored after it. Orders are therefore cancelled from
+ * the highest index to the lowest, and the transactions are sent one after
+ * the other so that this order is preserved on chain.
+ */
+export async function cancelOrdersForMarkets({
+  wallet,
+  connection,
+  orders,
+}: {
+  wallet: WalletAdapter;
+  connection: Connection;
+  orders: OrderWithMarketAndMarketName[];
+}): Promise<CancelOrderResult[]> {
+  const { cancels, notFound } = await makeCancelInstructions(
+    connection,
+    wallet,
+    orders,
+  );
+  const results: CancelOrderResult[] = notFound.map((order) => ({
+    order,
+    error: 'Order not found',
+  }));
+  if (cancels.length === 0) {
+    return results;
   }
-  return await sendTransaction({
-    transaction,
+
+  const lookupTables = await getMarketLookupTables(
+    connection,
+    wallet,
+    cancels.map(({ order }) => order.market),
+  );
+  const batchResults = await sendInstructionBatches({
+    groups: cancels.map(({ instruction }) => ({
+      instructions: [instruction],
+    })),
     wallet,
     connection,
-    sendingMessage: 'Sending cancel...',
+    lookupTables,
+    concurrency: 1,
+    sendingMessage: 'Sending cancel',
+    kind: 'cancel',
+    describe: (indices) => {
+      const { side, size, price } = cancels[indices[0]].order;
+      return indices.length > 1
+        ? `Cancel ${indices.length} orders`
+        : `Cancel ${side} ${size} @ ${price}`;
+    },
+    getMarket: (indices) => {
+      const { market } = cancels[indices[0]].order;
+      return indices.every((index) =>
+        cancels[index].order.market.address.equals(market.address),
+      )
+        ? market.address
+        : undefined;
+    },
+    // Filled orders shift the indices, so the instructions are made again
+    remakeInstructions: async (indices) => {
+      const { cancels: remade } = await makeCancelInstructions(
+        connection,
+        wallet,
+        indices.map((index) => cancels[index].order),
+      );
+      if (remade.length === 0) {
+        throw new Error('Orders are no longer open');
+      }
+      return remade.map(({ instruction }) => ({ instructions: [instruction] }));
+    },
   });
+  batchResults.forEach(({ indices, txid, error, logs }) =>
+    indices.forEach((index) =>
+      results.push({ order: cancels[index].order, txid, error, logs }),
+    ),
+  );
+
+  const failed = results.filter(({ error }) => error);
+  if (failed.length > 0 && orders.length > 1) {
+    notify({
+      message: `Failed to cancel ${failed.length} of ${orders.length} orders`,
+      description: failed[0].error,
+      logs: failed[0].logs,
+      type: 'error',
+    });
+  }
+  return results;
+}
+
+/**
+ * Looks up the current index of each order in its open orders account, and
+ * makes the cancel instructions in descending index order so that earlier
+ * cancels don't shift the orders of later ones.
+ */
+async function makeCancelInstructions(
+  connection: Connection,
+  wallet: WalletAdapter,
+  orders: OrderWithMarketAndMarketName[],
+) {
+  const cancels: {
+    order: OrderWithMarketAndMarketName;
+    instruction: TransactionInstruction;
+  }[] = [];
+  const notFound: OrderWithMarketAndMarketName[] = [];
+
+  const ordersByMarket = new Map<string, OrderWithMarketAndMarketName[]>();
+  for (const order of orders) {
+    const key = order.market.address.toBase58();
+    ordersByMarket.set(key, [...(ordersByMarket.get(key) || []), order]);
+  }
+  for (const marketOrders of ordersByMarket.values()) {
+    const market = marketOrders[0].market;
+    const openOrdersAccounts = await market.findOpenOrdersAccountForOwner(
+      connection,
+      wallet.publicKey,
+    );
+    const indexedOrders: {
+      order: OrderWithMarketAndMarketName;
+      index: number;
+    }[] = [];
+    for (const order of marketOrders) {
+      const index = getOrderIndex(openOrdersAccounts, order);
+      if (index === null) {
+        notFound.push(order);
+      } else {
+        indexedOrders.push({ order, index });
+      }
+    }
+    indexedOrders.sort((a, b) => b.index - a.index);
+    for (const { order, index } of indexedOrders) {
+      cancels.push({
+        order,
+        instruction: await market.makeCancelOrderInstruction(
+          new BN(index),
+          wallet.publicKey,
+        ),
+      });
+    }
+  }
+  return { cancels, notFound };
+}
+
+function getOrderIndex(openOrdersAccounts: OpenOrders[], order: Order) {
+  const account =
+    openOrdersAccounts.find((account) =>
+      account.address.equals(order.openOrdersAddress),
+    ) || openOrdersAccounts[0];
+  const index = (account?.orders || []).findIndex((orderId: BN) =>
+    orderId.eq(order.orderId),
+  );
+  return index === -1 ? null : index;
 }
 
 export async function placeOrder({
@@ -205,6 +547,8 @@ export async function placeOrder({
   baseCurrencyAccount,
   quoteCurrencyAccount,
   feeDiscountPubkey = undefined,
+  simulate = false,
+  computeBudget,
 }: {
   side: 'buy' | 'sell';
   price: number;
@@ -216,6 +560,8 @@ export async function placeOrder({
   baseCurrencyAccount: PublicKey | undefined;
   quoteCurrencyAccount: PublicKey | undefined;
   feeDiscountPubkey: PublicKey | undefined;
+  simulate?: boolean;
+  computeBudget?: ComputeBudgetSettings;
 }) {
   let formattedMinOrderSize =
     market?.minOrderSize?.toFixed(getDecimalCount(market.minOrderSize)) ||
@@ -338,14 +684,137 @@ export async function placeOrder({
     connection,
     signers,
     sendingMessage: 'Sending order...',
+    simulate,
+    computeBudget,
+    kind: 'placeOrder',
+    description: `${side === 'buy' ? 'Buy' : 'Sell'} ${size} @ ${price}`,
+    market: market?.address,
+  });
+}
+
+/**
+ * Creates and initializes a dex market. `minOrderSize` and `tickSize` are in
+ * UI units and are converted to native units here. Returns the address of the
+ * new market.
+ */
+export async function listMarket({
+  connection,
+  wallet,
+  baseMint,
+  quoteMint,
+  baseMintDecimals,
+  quoteMintDecimals,
+  minOrderSize,
+  tickSize,
+}: {
+  connection: Connection;
+  wallet: WalletAdapter;
+  baseMint: PublicKey;
+  quoteMint: PublicKey;
+  baseMintDecimals: number;
+  quoteMintDecimals: number;
+  minOrderSize: number;
+  tickSize: number;
+}): Promise<PublicKey> {
+  const minBaseOrderSize = Math.round(minOrderSize * 10 ** baseMintDecimals);
+  // Quote atoms per base atom, as a 32.32 fixed point number
+  const fp32TickSize = new BN(
+    Math.round(
+      tickSize * 10 ** (quoteMintDecimals - baseMintDecimals) * 2 ** 32,
+    ).toString(),
+  );
+  if (minBaseOrderSize <= 0) {
+    throw new Error('Min order size is below one base token unit');
+  }
+  if (fp32TickSize.isZero()) {
+    throw new Error('Tick size is too small for these mints');
+  }
+
+  // Each primed transaction is a pair of signers and instructions
+  const primedTransactions: [
+    Account[],
+    TransactionInstruction[],
+  ][] = await createMarket(
+    connection,
+    baseMint,
+    quoteMint,
+    minBaseOrderSize,
+    wallet.publicKey,
+    wallet.publicKey,
+    fp32TickSize,
+    new BN(0),
+  );
+  const marketAddress = getCreatedMarketAddress(primedTransactions);
+
+  // Each step needs the accounts of the previous ones
+  const results = await sendInstructionBatches({
+    groups: primedTransactions.map(([signers, instructions]) => ({
+      instructions,
+      signers,
+    })),
+    wallet,
+    connection,
+    concurrency: 1,
+    stopOnError: true,
+    sendingMessage: 'Creating market',
+    kind: 'listMarket',
+    describe: (indices) =>
+      `List market ${indices[indices.length - 1] + 1}/${
+        primedTransactions.length
+      }`,
   });
+  const failed = results.find(({ error }) => error);
+  if (failed) {
+    throw new TransactionError(
+      failed.error as string,
+      failed.logs,
+      failed.txid,
+    );
+  }
+
+  return marketAddress;
+}
+
+/**
+ * The market account of the createMarket steps, which is the only new
+ * account they create for the dex program. The orderbook accounts belong to
+ * the orderbook program and the vaults to the token program.
+ */
+function getCreatedMarketAddress(
+  primedTransactions: [Account[], TransactionInstruction[]][],
+): PublicKey {
+  for (const [signers, instructions] of primedTransactions) {
+    for (const instruction of instructions) {
+      if (
+        !instruction.programId.equals(SystemProgram.programId) ||
+        SystemInstruction.decodeInstructionType(instruction) !== 'Create'
+      ) {
+        continue;
+      }
+      const {
+        newAccountPubkey,
+        programId,
+      } = SystemInstruction.decodeCreateAccount(instruction);
+      if (
+        programId.equals(DEX_ID) &&
+        signers.some(({ publicKey }) => publicKey.equals(newAccountPubkey))
+      ) {
+        return newAccountPubkey;
+      }
+    }
+  }
+  throw new Error('Market account not found');
 }
 
 export const getUnixTs = () => {
   return new Date().getTime() / 1000;
 };
 
+// Confirmation timeout for transactions without a lastValidBlockHeight
 const DEFAULT_TIMEOUT = 15000;
+// Times an expired transaction is signed again when the caller allows it
+const MAX_RESIGN_ATTEMPTS = 2;
+const BLOCK_HEIGHT_POLL_INTERVAL = 2000;
 
 export async function sendTransaction({
   transaction,
@@ -357,6 +826,12 @@ export async function sendTransaction({
   successMessage = 'Transaction confirmed',
   timeout = DEFAULT_TIMEOUT,
   sendNotification = true,
+  simulate = false,
+  computeBudget,
+  resignOnExpiry = false,
+  kind,
+  description,
+  market,
 }: {
   transaction: Transaction;
   wallet: WalletAdapter;
@@ -367,49 +842,110 @@ export async function sendTransaction({
   successMessage?: string;
   timeout?: number;
   sendNotification?: boolean;
+  simulate?: boolean;
+  computeBudget?: ComputeBudgetSettings;
+  // Only for transactions that are safe to send again as they are
+  resignOnExpiry?: boolean;
+  kind?: TransactionKind;
+  description?: string;
+  market?: PublicKey;
 }) {
-  const signedTransaction = await signTransaction({
-    transaction,
-    wallet,
-    signers,
-    connection,
-  });
+  if (simulate) {
+    await preflightTransaction({ transaction, wallet, signers, connection });
+  }
+  const sign = () =>
+    signTransaction({
+      transaction,
+      wallet,
+      signers,
+      connection,
+      computeBudget,
+    });
   return await sendSignedTransaction({
-    signedTransaction,
+    signedTransaction: await sign(),
     connection,
     sendingMessage,
     sentMessage,
     successMessage,
     timeout,
     sendNotification,
+    kind,
+    description,
+    market,
+    resign: resignOnExpiry ? sign : undefined,
   });
 }
 
+/**
+ * Simulates an unsigned transaction so that failures are reported before the
+ * wallet asks the user to approve it.
+ */
+export async function preflightTransaction({
+  transaction,
+  wallet,
+  signers = [],
+  connection,
+}: {
+  transaction: Transaction;
+  wallet: WalletAdapter;
+  signers?: Array<Account>;
+  connection: Connection;
+}) {
+  transaction.setSigners(wallet.publicKey, ...signers.map((s) => s.publicKey));
+  const { err, logs } = (
+    await simulateTransaction(connection, transaction, 'single')
+  ).value;
+  if (err) {
+    console.log('Simulation failed', err, logs);
+    throw new TransactionError(
+      decodeTransactionError(
+        err,
+        logs,
+        transaction.instructions.map(({ programId }) => programId),
+      ),
+      logs,
+    );
+  }
+}
+
+/**
+ * Adds the compute budget instructions, from the app settings unless
+ * `computeBudget` overrides them, and has the wallet sign the transaction.
+ */
 export async function signTransaction({
   transaction,
   wallet,
   signers = [],
   connection,
+  computeBudget = getComputeBudget(),
 }: {
   transaction: Transaction;
   wallet: WalletAdapter;
   signers?: Array<Account>;
   connection: Connection;
+  computeBudget?: ComputeBudgetSettings;
 }) {
-  transaction.recentBlockhash = (
-    await connection.getRecentBlockhash('max')
-  ).blockhash;
+  await addComputeBudgetInstructions(connection, transaction, computeBudget);
+  const {
+    blockhash,
+    lastValidBlockHeight,
+  } = await connection.getLatestBlockhash('confirmed');
+  transaction.recentBlockhash = blockhash;
   transaction.setSigners(wallet.publicKey, ...signers.map((s) => s.publicKey));
   if (signers.length > 0) {
     transaction.partialSign(...signers);
   }
-  return await wallet.signTransaction(transaction);
+  const signedTransaction = await wallet.signTransaction(transaction);
+  // Wallets may hand back a new transaction without it
+  signedTransaction.lastValidBlockHeight = lastValidBlockHeight;
+  return signedTransaction;
 }
 
 export async function signTransactions({
   transactionsAndSigners,
   wallet,
   connection,
+  computeBudget = getComputeBudget(),
 }: {
   transactionsAndSigners: {
     transaction: Transaction;
@@ -417,8 +953,15 @@ export async function signTransactions({
   }[];
   wallet: WalletAdapter;
   connection: Connection;
+  computeBudget?: ComputeBudgetSettings;
 }) {
-  const blockhash = (await connection.getRecentBlockhash('max')).blockhash;
+  for (const { transaction } of transactionsAndSigners) {
+    await addComputeBudgetInstructions(connection, transaction, computeBudget);
+  }
+  const {
+    blockhash,
+    lastValidBlockHeight,
+  } = await connection.getLatestBlockhash('confirmed');
   transactionsAndSigners.forEach(({ transaction, signers = [] }) => {
     transaction.recentBlockhash = blockhash;
     transaction.setSigners(
@@ -429,9 +972,13 @@ export async function signTransactions({
       transaction.partialSign(...signers);
     }
   });
-  return await wallet.signAllTransactions(
+  const signedTransactions = await wallet.signAllTransactions(
     transactionsAndSigners.map(({ transaction }) => transaction),
   );
+  signedTransactions.forEach((signedTransaction) => {
+    signedTransaction.lastValidBlockHeight = lastValidBlockHeight;
+  });
+  return signedTransactions;
 }
 
 export async function sendSignedTransaction({
@@ -442,14 +989,24 @@ export async function sendSignedTransaction({
   successMessage = 'Transaction confirmed',
   timeout = DEFAULT_TIMEOUT,
   sendNotification = true,
+  kind = 'other',
+  description = '',
+  market,
+  resign,
+  resignAttempts = MAX_RESIGN_ATTEMPTS,
 }: {
-  signedTransaction: Transaction;
+  signedTransaction: Transaction | VersionedTransaction;
   connection: Connection;
   sendingMessage?: string;
   sentMessage?: string;
   successMessage?: string;
   timeout?: number;
   sendNotification?: boolean;
+  kind?: TransactionKind;
+  description?: string;
+  market?: PublicKey;
+  resign?: () => Promise<Transaction | VersionedTransaction>;
+  resignAttempts?: number;
 }): Promise<string> {
   const rawTransaction = signedTransaction.serialize();
   const startTime = getUnixTs();
@@ -465,12 +1022,45 @@ export async function sendSignedTransaction({
   if (sendNotification) {
     notify({ message: sentMessage, type: 'success', txid });
   }
+  const owner = getFeePayer(signedTransaction);
+  const lastValidBlockHeight = getLastValidBlockHeight(signedTransaction);
+  // The log is kept per cluster. Its genesis hash is looked up once the
+  // transaction is sent, so that it never holds the transaction up.
+  const logGenesisHash = getGenesisHash(connection).catch((e) => {
+    console.log('Error logging transaction', e);
+    return null;
+  });
+  const logTransaction = (log: (genesisHash: string) => void) => {
+    logGenesisHash.then((genesisHash) => {
+      if (genesisHash) {
+        log(genesisHash);
+      }
+    });
+  };
+  logTransaction((genesisHash) =>
+    recordTransaction(owner, genesisHash, {
+      txid,
+      kind,
+      description,
+      market: market?.toBase58(),
+      createsTokenAccount: getProgramIds(signedTransaction).some((programId) =>
+        programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID),
+      ),
+      status: 'pending',
+      sentAt: Date.now(),
+      lastValidBlockHeight,
+    }),
+  );
 
   console.log('Started awaiting confirmation for', txid);
 
   let done = false;
   (async () => {
-    while (!done && getUnixTs() - startTime < timeout) {
+    while (
+      !done &&
+      (lastValidBlockHeight !== undefined ||
+        getUnixTs() - startTime < timeout / 1000)
+    ) {
       connection.sendRawTransaction(rawTransaction, {
         skipPreflight: true,
       });
@@ -478,22 +1068,83 @@ export async function sendSignedTransaction({
     }
   })();
   try {
-    await awaitTransactionSignatureConfirmation(txid, timeout, connection);
+    await awaitTransactionSignatureConfirmation(
+      txid,
+      lastValidBlockHeight,
+      timeout,
+      connection,
+    );
   } catch (err) {
+    // @ts-ignore
+    if (err.expired) {
+      done = true;
+      const latency = getUnixTs() - startTime;
+      logTransaction((genesisHash) =>
+        updateTransaction(owner, genesisHash, txid, {
+          status: 'expired',
+          latency,
+        }),
+      );
+      if (resign && resignAttempts > 0) {
+        if (sendNotification) {
+          notify({ message: 'Transaction expired, signing it again...' });
+        }
+        return await sendSignedTransaction({
+          signedTransaction: await resign(),
+          connection,
+          sendingMessage,
+          sentMessage,
+          successMessage,
+          timeout,
+          sendNotification,
+          kind,
+          description,
+          market,
+          resign,
+          resignAttempts: resignAttempts - 1,
+        });
+      }
+      throw new TransactionExpiredError(txid);
+    }
     // @ts-ignore
     if (err.timeout) {
-      throw new Error('Timed out awaiting confirmation on transaction');
+      // Left pending, the transaction log checks it again later
+      throw new TransactionError(
+        'Timed out awaiting confirmation on transaction',
+        null,
+        txid,
+      );
     }
+    // The confirmation only has the error, simulate again to get the logs
     let simulateResult: SimulatedTransactionResponse | null = null;
     try {
-      simulateResult = (
-        await simulateTransaction(connection, signedTransaction, 'single')
+      simulateResult = (isVersionedTransaction(signedTransaction)
+        ? await connection.simulateTransaction(signedTransaction, {
+            sigVerify: false,
+            replaceRecentBlockhash: true,
+            commitment: 'confirmed',
+          })
+        : await simulateTransaction(connection, signedTransaction, 'single')
       ).value;
     } catch (e) {
-      console.log(`Error`, e);
-      //@ts-ignore
-      throw new Error(e.message);
+      console.log('Error simulating failed transaction', e);
     }
+    const logs = simulateResult?.err ? simulateResult.logs : null;
+    console.log('Transaction failed', txid, err, logs);
+    const error = decodeTransactionError(
+      err,
+      logs,
+      getProgramIds(signedTransaction),
+    );
+    const latency = getUnixTs() - startTime;
+    logTransaction((genesisHash) =>
+      updateTransaction(owner, genesisHash, txid, {
+        status: 'failed',
+        error,
+        latency,
+      }),
+    );
+    throw new TransactionError(error, logs, txid);
   } finally {
     done = true;
   }
@@ -502,25 +1153,66 @@ export async function sendSignedTransaction({
   }
 
   console.log('Latency', txid, getUnixTs() - startTime);
+  const latency = getUnixTs() - startTime;
+  logTransaction((genesisHash) =>
+    updateTransaction(owner, genesisHash, txid, {
+      status: 'confirmed',
+      latency,
+    }),
+  );
   return txid;
 }
 
+/**
+ * Resolves once the transaction is confirmed and rejects with its error if it
+ * failed. Transactions with a `lastValidBlockHeight` are awaited until the
+ * chain passes it, and rejected with `expired` if they never landed; others
+ * are rejected with `timeout` after `timeout` ms.
+ */
 async function awaitTransactionSignatureConfirmation(
   txid: TransactionSignature,
+  lastValidBlockHeight: number | undefined,
   timeout: number,
   connection: Connection,
 ) {
   let done = false;
   const result = await new Promise((resolve, reject) => {
     (async () => {
-      setTimeout(() => {
-        if (done) {
-          return;
-        }
-        done = true;
-        console.log('Timed out for txid', txid);
-        reject({ timeout: true });
-      }, timeout);
+      if (lastValidBlockHeight === undefined) {
+        setTimeout(() => {
+          if (done) {
+            return;
+          }
+          done = true;
+          console.log('Timed out for txid', txid);
+          reject({ timeout: true });
+        }, timeout);
+      } else {
+        (async () => {
+          while (!done) {
+            await sleep(BLOCK_HEIGHT_POLL_INTERVAL);
+            try {
+              const blockHeight = await connection.getBlockHeight('confirmed');
+              if (done || blockHeight <= lastValidBlockHeight) {
+                continue;
+              }
+              // Past the last valid block height, the transaction can only
+              // have landed already
+              const signatureStatuses = await connection.getSignatureStatuses(
+                [txid],
+                { searchTransactionHistory: true },
+              );
+              if (!done && !signatureStatuses.value[0]) {
+                done = true;
+                console.log('Blockhash expired for txid', txid);
+                reject({ expired: true });
+              }
+            } catch (e) {
+              console.log('Error checking block height: txid', txid, e);
+            }
+          }
+        })();
+      }
       try {
         connection.onSignature(
           txid,
@@ -555,7 +1247,10 @@ async function awaitTransactionSignatureConfirmation(
                 console.log('REST error for', txid, result);
                 done = true;
                 reject(result.err);
-              } else if (!result.confirmations) {
+              } else if (
+                !result.confirmations &&
+                result.confirmationStatus !== 'finalized'
+              ) {
                 console.log('REST no confirmations for', txid, result);
               } else {
                 console.log('REST confirmation for', txid, result);
@@ -577,14 +1272,552 @@ async function awaitTransactionSignatureConfirmation(
   return result;
 }
 
-function mergeTransactions(transactions: (Transaction | undefined)[]) {
-  const transaction = new Transaction();
-  transactions
-    .filter((t): t is Transaction => t !== undefined)
-    .forEach((t) => {
-      transaction.add(t);
+export interface InstructionGroup {
+  instructions: TransactionInstruction[];
+  // New accounts that sign next to the wallet
+  signers?: Account[];
+}
+
+export interface BatchResult {
+  // Groups sent in this transaction
+  indices: number[];
+  txid?: string;
+  error?: string;
+  logs?: string[];
+}
+
+// Transactions in flight at once in sendInstructionBatches
+const MAX_CONCURRENT_SENDS = 4;
+
+/**
+ * Packs groups of instructions into as few transactions as fit, signs them
+ * all in one wallet prompt and sends them with at most `concurrency` in
+ * flight. A group that doesn't fit in a transaction on its own fails before
+ * anything is signed. Returns one result per transaction, in order, failed
+ * ones included. With `stopOnError` the transactions after a failure are not
+ * sent.
+ *
+ * `simulate` preflights the instructions when they fit in one transaction,
+ * later transactions of a batch may depend on earlier ones landing first.
+ *
+ * Without `lookupTables`, groups that do not fit in one legacy transaction
+ * are sent as v0 transactions using the wallet's own lookup table, when the
+ * wallet can sign them.
+ */
+export async function sendInstructionBatches({
+  groups,
+  wallet,
+  connection,
+  lookupTables = [],
+  concurrency = MAX_CONCURRENT_SENDS,
+  stopOnError = false,
+  simulate = false,
+  sendingMessage = 'Sending transaction',
+  sendNotification = true,
+  kind = 'other',
+  describe = () => '',
+  getMarket = () => undefined,
+  resignOnExpiry = false,
+  remakeInstructions,
+}: {
+  groups: InstructionGroup[];
+  wallet: WalletAdapter;
+  connection: Connection;
+  lookupTables?: AddressLookupTableAccount[];
+  concurrency?: number;
+  stopOnError?: boolean;
+  simulate?: boolean;
+  sendingMessage?: string;
+  sendNotification?: boolean;
+  kind?: TransactionKind;
+  describe?: (indices: number[]) => string;
+  getMarket?: (indices: number[]) => PublicKey | undefined;
+  // Only for instructions that are safe to send again as they are
+  resignOnExpiry?: boolean;
+  // Makes the instructions of expired transactions again before re-signing
+  remakeInstructions?: (indices: number[]) => Promise<InstructionGroup[]>;
+}): Promise<BatchResult[]> {
+  if (
+    lookupTables.length === 0 &&
+    canSignVersionedTransactions(wallet) &&
+    !fitsInOneTransaction(groups, wallet.publicKey)
+  ) {
+    lookupTables = await getBatchLookupTables(connection, wallet, groups);
+  }
+  const packed = packInstructions(groups, wallet.publicKey, lookupTables);
+  if (simulate && packed.length === 1) {
+    await preflightTransaction({
+      transaction: new Transaction().add(...packed[0].instructions),
+      wallet,
+      signers: packed[0].signers,
+      connection,
+    });
+  }
+  const signedTransactions = await signInstructionBatches({
+    batches: packed,
+    wallet,
+    connection,
+    lookupTables,
+  });
+
+  async function resign({ indices, instructions, signers }: PackedTransaction) {
+    if (remakeInstructions) {
+      const remade = await remakeInstructions(indices);
+      instructions = remade.flatMap(({ instructions }) => instructions);
+      signers = remade.flatMap(({ signers = [] }) => signers);
+    }
+    const [signedTransaction] = await signInstructionBatches({
+      batches: [{ instructions, signers }],
+      wallet,
+      connection,
+      lookupTables,
+    });
+    return signedTransaction;
+  }
+
+  async function send(i: number): Promise<BatchResult> {
+    const { indices } = packed[i];
+    try {
+      const txid = await sendSignedTransaction({
+        signedTransaction: signedTransactions[i],
+        connection,
+        sendingMessage:
+          packed.length > 1
+            ? `${sendingMessage} ${i + 1}/${packed.length}...`
+            : `${sendingMessage}...`,
+        sendNotification,
+        kind,
+        description: describe(indices),
+        market: getMarket(indices),
+        resign:
+          resignOnExpiry || remakeInstructions
+            ? () => resign(packed[i])
+            : undefined,
+      });
+      return { indices, txid };
+    } catch (e) {
+      return { indices, error: e.message, logs: e.logs };
+    }
+  }
+
+  let failed = false;
+  return await mapWithConcurrency(
+    packed,
+    concurrency,
+    async ({ indices }, i): Promise<BatchResult> => {
+      if (stopOnError && failed) {
+        return { indices, error: 'Not sent, an earlier transaction failed' };
+      }
+      const result = await send(i);
+      failed = failed || !!result.error;
+      return result;
+    },
+  );
+}
+
+// Maximum size of a serialized transaction (PACKET_DATA_SIZE)
+const MAX_TRANSACTION_SIZE = 1232;
+
+// Stands in for the blockhash when measuring unsigned transactions
+const PLACEHOLDER_BLOCKHASH = '11111111111111111111111111111111';
+
+function getTransactionSize(
+  instructions: TransactionInstruction[],
+  feePayer: PublicKey,
+  lookupTables: AddressLookupTableAccount[] = [],
+) {
+  if (lookupTables.length > 0) {
+    return new VersionedTransaction(
+      new TransactionMessage({
+        payerKey: feePayer,
+        recentBlockhash: PLACEHOLDER_BLOCKHASH,
+        instructions,
+      }).compileToV0Message(lookupTables),
+    ).serialize().length;
+  }
+  const message = new Transaction({
+    feePayer,
+    recentBlockhash: PLACEHOLDER_BLOCKHASH,
+  })
+    .add(...instructions)
+    .compileMessage();
+  // Signature count prefix plus one signature per required signer
+  return (
+    1 + 64 * message.header.numRequiredSignatures + message.serialize().length
+  );
+}
+
+interface PackedTransaction {
+  instructions: TransactionInstruction[];
+  signers: Account[];
+  indices: number[];
+}
+
+/**
+ * Greedily packs groups of instructions, in order, into as few transactions
+ * as fit under the size limit, leaving room for the compute budget
+ * instructions. Every signer takes a signature in the size, and the extra
+ * signers of a group go with its instructions. Sizes are those of v0
+ * transactions when `lookupTables` are given. A group is never split across
+ * transactions. `indices` maps each transaction back to the groups it holds.
+ */
+function packInstructions(
+  groups: InstructionGroup[],
+  feePayer: PublicKey,
+  lookupTables: AddressLookupTableAccount[] = [],
+): PackedTransaction[] {
+  const packed: PackedTransaction[] = [];
+  const reserved = getComputeBudgetPlaceholderInstructions();
+  groups.forEach(({ instructions, signers = [] }, index) => {
+    if (
+      getTransactionSize(
+        [...reserved, ...instructions],
+        feePayer,
+        lookupTables,
+      ) > MAX_TRANSACTION_SIZE
+    ) {
+      throw new Error('Instructions do not fit in a single transaction');
+    }
+    const current = packed[packed.length - 1];
+    if (
+      current &&
+      getTransactionSize(
+        [...reserved, ...current.instructions, ...instructions],
+        feePayer,
+        lookupTables,
+      ) <= MAX_TRANSACTION_SIZE
+    ) {
+      current.instructions.push(...instructions);
+      signers.forEach((signer) => {
+        if (
+          !current.signers.some((s) => s.publicKey.equals(signer.publicKey))
+        ) {
+          current.signers.push(signer);
+        }
+      });
+      current.indices.push(index);
+    } else {
+      packed.push({
+        instructions: [...instructions],
+        signers: [...signers],
+        indices: [index],
+      });
+    }
+  });
+  return packed;
+}
+
+function fitsInOneTransaction(groups: InstructionGroup[], feePayer: PublicKey) {
+  try {
+    return packInstructions(groups, feePayer).length <= 1;
+  } catch (e) {
+    return false;
+  }
+}
+
+// Last valid block heights of the v0 transactions signed here, legacy
+// transactions carry their own
+const versionedBlockHeights = new WeakMap<VersionedTransaction, number>();
+
+function isVersionedTransaction(
+  transaction: Transaction | VersionedTransaction,
+): transaction is VersionedTransaction {
+  return 'version' in transaction;
+}
+
+function getFeePayer(transaction: Transaction | VersionedTransaction) {
+  return isVersionedTransaction(transaction)
+    ? transaction.message.staticAccountKeys[0]
+    : transaction.signatures[0].publicKey;
+}
+
+function getProgramIds(
+  transaction: Transaction | VersionedTransaction,
+): PublicKey[] {
+  if (isVersionedTransaction(transaction)) {
+    const { staticAccountKeys, compiledInstructions } = transaction.message;
+    return compiledInstructions.map(
+      ({ programIdIndex }) => staticAccountKeys[programIdIndex],
+    );
+  }
+  return transaction.instructions.map(({ programId }) => programId);
+}
+
+function getLastValidBlockHeight(
+  transaction: Transaction | VersionedTransaction,
+) {
+  return isVersionedTransaction(transaction)
+    ? versionedBlockHeights.get(transaction)
+    : transaction.lastValidBlockHeight;
+}
+
+function canSignVersionedTransactions(wallet: WalletAdapter) {
+  return (
+    !!wallet.signAllVersionedTransactions &&
+    !!wallet.supportedTransactionVersions?.has(0)
+  );
+}
+
+const lookupTableCache = new Map<
+  string,
+  Promise<AddressLookupTableAccount | null>
+>();
+
+/**
+ * Lookup tables of the registry markets among `markets`, empty when the
+ * wallet can only sign legacy transactions.
+ */
+async function getMarketLookupTables(
+  connection: Connection,
+  wallet: WalletAdapter,
+  markets: Market[],
+): Promise<AddressLookupTableAccount[]> {
+  if (!canSignVersionedTransactions(wallet)) {
+    return [];
+  }
+  let cluster: Cluster;
+  try {
+    cluster = await getConnectionCluster(connection);
+  } catch (e) {
+    console.log('Error finding the cluster of the lookup tables', e);
+    return [];
+  }
+  const addresses = new Set<string>();
+  markets.forEach((market) => {
+    const lookupTable = getMarketLookupTable(market.address, cluster);
+    lookupTable && addresses.add(lookupTable.toBase58());
+  });
+  const lookupTables = await Promise.all(
+    [...addresses].map((address) => {
+      if (!lookupTableCache.has(address)) {
+        lookupTableCache.set(
+          address,
+          connection
+            .getAddressLookupTable(new PublicKey(address))
+            .then(({ value }) => value)
+            .catch((e) => {
+              console.log('Error loading lookup table', address, e);
+              lookupTableCache.delete(address);
+              return null;
+            }),
+        );
+      }
+      return lookupTableCache.get(address);
+    }),
+  );
+  return lookupTables.filter(
+    (lookupTable): lookupTable is AddressLookupTableAccount => !!lookupTable,
+  );
+}
+
+// Addresses added by one extend instruction, few enough to fit in a legacy
+// transaction next to the create instruction
+const MAX_EXTEND_ADDRESSES = 20;
+const MAX_LOOKUP_TABLE_ADDRESSES = 256;
+const LOOKUP_TABLE_ACTIVATION_TIMEOUT = 10_000;
+
+/**
+ * Accounts used by more than one of the groups, other than signers and
+ * programs. These are the ones a lookup table saves space on, such as the
+ * market, orderbook, event queue and vault accounts of the markets.
+ */
+function getSharedAccounts(groups: InstructionGroup[]): PublicKey[] {
+  const programIds = new Set<string>();
+  const counts = new Map<string, number>();
+  groups.forEach(({ instructions }) => {
+    const accounts = new Set<string>();
+    instructions.forEach(({ programId, keys }) => {
+      programIds.add(programId.toBase58());
+      keys.forEach(
+        ({ pubkey, isSigner }) => !isSigner && accounts.add(pubkey.toBase58()),
+      );
     });
-  return transaction;
+    accounts.forEach((account) =>
+      counts.set(account, (counts.get(account) || 0) + 1),
+    );
+  });
+  return [...counts]
+    .filter(([account, count]) => count > 1 && !programIds.has(account))
+    .slice(0, MAX_LOOKUP_TABLE_ADDRESSES)
+    .map(([account]) => new PublicKey(account));
+}
+
+/**
+ * Lookup table of the wallet holding `addresses`. It is created, or extended
+ * with the missing addresses, with one wallet prompt, and returned once the
+ * new addresses can be used. Its address is kept per wallet and cluster.
+ */
+async function getWalletLookupTable(
+  connection: Connection,
+  wallet: WalletAdapter,
+  addresses: PublicKey[],
+): Promise<AddressLookupTableAccount> {
+  const genesisHash = await getGenesisHash(connection);
+  const storageKey = `lookupTable:${wallet.publicKey.toBase58()}:${genesisHash}`;
+  const saved = localStorage.getItem(storageKey);
+  const lookupTable = saved
+    ? (await connection.getAddressLookupTable(new PublicKey(JSON.parse(saved))))
+        .value
+    : null;
+  let missing = addresses.filter(
+    (address) =>
+      !lookupTable?.state.addresses.some((added) => added.equals(address)),
+  );
+  if (lookupTable && missing.length === 0) {
+    return lookupTable;
+  }
+
+  const instructions: TransactionInstruction[] = [];
+  let lookupTableAddress: PublicKey;
+  if (
+    lookupTable &&
+    lookupTable.isActive() &&
+    lookupTable.state.addresses.length + missing.length <=
+      MAX_LOOKUP_TABLE_ADDRESSES
+  ) {
+    lookupTableAddress = lookupTable.key;
+  } else {
+    const [
+      createInstruction,
+      createdAddress,
+    ] = AddressLookupTableProgram.createLookupTable({
+      authority: wallet.publicKey,
+      payer: wallet.publicKey,
+      recentSlot: await connection.getSlot('finalized'),
+    });
+    instructions.push(createInstruction);
+    lookupTableAddress = createdAddress;
+    missing = addresses;
+  }
+  const transactions: Transaction[] = [];
+  for (let i = 0; i < missing.length; i += MAX_EXTEND_ADDRESSES) {
+    transactions.push(
+      new Transaction().add(
+        ...(i === 0 ? instructions : []),
+        AddressLookupTableProgram.extendLookupTable({
+          lookupTable: lookupTableAddress,
+          authority: wallet.publicKey,
+          payer: wallet.publicKey,
+          addresses: missing.slice(i, i + MAX_EXTEND_ADDRESSES),
+        }),
+      ),
+    );
+  }
+  const signedTransactions = await signTransactions({
+    transactionsAndSigners: transactions.map((transaction) => ({
+      transaction,
+    })),
+    wallet,
+    connection,
+  });
+  for (let i = 0; i < signedTransactions.length; ++i) {
+    await sendSignedTransaction({
+      signedTransaction: signedTransactions[i],
+      connection,
+      sendingMessage:
+        signedTransactions.length > 1
+          ? `Updating lookup table ${i + 1}/${signedTransactions.length}...`
+          : 'Updating lookup table...',
+      description: 'Update lookup table',
+    });
+  }
+  setLocalStorageState(storageKey, lookupTableAddress.toBase58());
+
+  // Addresses can be looked up from the slot after they were added
+  const extendedSlot = await connection.getSlot('confirmed');
+  const startTime = Date.now();
+  while ((await connection.getSlot('confirmed')) <= extendedSlot) {
+    if (Date.now() - startTime > LOOKUP_TABLE_ACTIVATION_TIMEOUT) {
+      throw new Error('Timed out waiting for the lookup table');
+    }
+    await sleep(400);
+  }
+  const { value } = await connection.getAddressLookupTable(lookupTableAddress);
+  if (!value) {
+    throw new Error('Lookup table not found');
+  }
+  return value;
+}
+
+/**
+ * The wallet's lookup table with the accounts shared by `groups`, empty
+ * when there are none or the table could not be updated. Batches are then
+ * sent as legacy transactions.
+ */
+async function getBatchLookupTables(
+  connection: Connection,
+  wallet: WalletAdapter,
+  groups: InstructionGroup[],
+): Promise<AddressLookupTableAccount[]> {
+  const addresses = getSharedAccounts(groups);
+  if (addresses.length === 0) {
+    return [];
+  }
+  try {
+    return [await getWalletLookupTable(connection, wallet, addresses)];
+  } catch (e) {
+    console.log('Error updating lookup table', e);
+    return [];
+  }
+}
+
+/**
+ * Signs one transaction per batch of instructions, all in one wallet prompt.
+ * These are v0 transactions using `lookupTables` when there are any, and
+ * legacy transactions otherwise.
+ */
+async function signInstructionBatches({
+  batches,
+  wallet,
+  connection,
+  lookupTables,
+}: {
+  batches: { instructions: TransactionInstruction[]; signers?: Account[] }[];
+  wallet: WalletAdapter;
+  connection: Connection;
+  lookupTables: AddressLookupTableAccount[];
+}): Promise<(Transaction | VersionedTransaction)[]> {
+  if (lookupTables.length === 0 || !wallet.signAllVersionedTransactions) {
+    return await signTransactions({
+      transactionsAndSigners: batches.map(({ instructions, signers }) => ({
+        transaction: new Transaction().add(...instructions),
+        signers,
+      })),
+      wallet,
+      connection,
+    });
+  }
+  const computeBudget = getComputeBudget();
+  const {
+    blockhash,
+    lastValidBlockHeight,
+  } = await connection.getLatestBlockhash('confirmed');
+  const transactions: VersionedTransaction[] = [];
+  for (const { instructions, signers = [] } of batches) {
+    const budgetInstructions = await getComputeBudgetInstructions(
+      connection,
+      instructions,
+      computeBudget,
+    );
+    const transaction = new VersionedTransaction(
+      new TransactionMessage({
+        payerKey: wallet.publicKey,
+        recentBlockhash: blockhash,
+        instructions: [...budgetInstructions, ...instructions],
+      }).compileToV0Message(lookupTables),
+    );
+    if (signers.length > 0) {
+      transaction.sign(signers);
+    }
+    transactions.push(transaction);
+  }
+  const signedTransactions = await wallet.signAllVersionedTransactions(
+    transactions,
+  );
+  signedTransactions.forEach((signedTransaction) =>
+    versionedBlockHeights.set(signedTransaction, lastValidBlockHeight),
+  );
+  return signedTransactions;
 }
 
 function jsonRpcResult(resultDescription: any) {
@@ -657,7 +1890,7 @@ export async function getMultipleSolanaAccounts(
       lamports: any;
       data: Buffer;
     } | null = null;
-    if (res.result.value) {
+    if (account) {
       const { executable, owner, lamports, data } = account;
       assert(data[1] === 'base64');
       value = {
@@ -685,11 +1918,9 @@ async function simulateTransaction(
   transaction: Transaction,
   commitment: Commitment,
 ): Promise<RpcResponseAndContext<SimulatedTransactionResponse>> {
-  // @ts-ignore
-  transaction.recentBlockhash = await connection._recentBlockhash(
-    // @ts-ignore
-    connection._disableBlockhashCaching,
-  );
+  transaction.recentBlockhash = (
+    await connection.getLatestBlockhash(commitment)
+  ).blockhash;
 
   const signData = transaction.serializeMessage();
   // @ts-ignore
@@ -1,8 +1,9 @@
 import * as BufferLayout from 'buffer-layout';
 import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
 import { TokenAccount } from './types';
-import { TOKEN_MINTS, WRAPPED_SOL_MINT } from './markets';
-import { useAllMarkets, useCustomMarkets, useTokenAccounts } from './markets';
+import { WRAPPED_SOL_MINT } from './markets';
+import { useAllMarkets, useTokenAccounts } from './markets';
+import { useTokenMints } from './marketRegistry';
 import { getMultipleSolanaAccounts } from './send';
 import { useConnection } from './connection';
 import { useAsyncData } from './fetch-loop';
@@ -116,13 +117,12 @@ export async function getTokenAccountInfo(
 
 // todo: use this to map custom mints to custom tickers. Add functionality once custom markets store mints
 export function useMintToTickers(): { [mint: string]: string } {
-  const { customMarkets } = useCustomMarkets();
+  const tokenMints = useTokenMints();
   return useMemo(() => {
     return Object.fromEntries(
-      TOKEN_MINTS.map((mint) => [mint.address.toBase58(), mint.name]),
+      tokenMints.map((mint) => [mint.address.toBase58(), mint.name]),
     );
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [customMarkets.length]);
+  }, [tokenMints]);
 }
 
 const _VERY_SLOW_REFRESH_INTERVAL = 5000 * 1000;
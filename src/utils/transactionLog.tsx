@@ -0,0 +1,130 @@
+import { useEffect } from 'react';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { useConnection, useGenesisHash } from './connection';
+import { useWallet } from './wallet';
+import { setLocalStorageState, useLocalStorageState } from './utils';
+import { decodeTransactionError } from './programErrors';
+import { TransactionLogEntry } from './types';
+
+const MAX_LOG_ENTRIES = 200;
+// Pending transactions without a lastValidBlockHeight that the node doesn't
+// know about after this long have expired and will never land.
+const PENDING_EXPIRY = 5 * 60 * 1000;
+
+// Logs are kept per cluster, since the transactions of one cluster can't be
+// looked up on another
+function getLogKey(owner: PublicKey | string, genesisHash: string) {
+  return `transactionLog:${owner.toString()}:${genesisHash}`;
+}
+
+function getTransactionLog(
+  owner: PublicKey | string,
+  genesisHash: string,
+): TransactionLogEntry[] {
+  try {
+    return JSON.parse(
+      localStorage.getItem(getLogKey(owner, genesisHash)) || '[]',
+    );
+  } catch (e) {
+    return [];
+  }
+}
+
+export function recordTransaction(
+  owner: PublicKey,
+  genesisHash: string,
+  entry: TransactionLogEntry,
+) {
+  setLocalStorageState(
+    getLogKey(owner, genesisHash),
+    [entry, ...getTransactionLog(owner, genesisHash)].slice(0, MAX_LOG_ENTRIES),
+  );
+}
+
+export function updateTransaction(
+  owner: PublicKey | string,
+  genesisHash: string,
+  txid: string,
+  update: Partial<TransactionLogEntry>,
+) {
+  setLocalStorageState(
+    getLogKey(owner, genesisHash),
+    getTransactionLog(owner, genesisHash).map((entry) =>
+      entry.txid === txid ? { ...entry, ...update } : entry,
+    ),
+  );
+}
+
+// Transactions already re-checked in this session
+const checkedTransactions = new Set<string>();
+
+async function checkPendingTransactions(
+  connection: Connection,
+  owner: string,
+  genesisHash: string,
+  entries: TransactionLogEntry[],
+) {
+  const { value: statuses } = await connection.getSignatureStatuses(
+    entries.map(({ txid }) => txid),
+    { searchTransactionHistory: true },
+  );
+  const blockHeight = await connection.getBlockHeight('confirmed');
+  entries.forEach((entry, i) => {
+    const status = statuses[i];
+    if (status?.err) {
+      updateTransaction(owner, genesisHash, entry.txid, {
+        status: 'failed',
+        error: decodeTransactionError(status.err),
+      });
+    } else if (status) {
+      updateTransaction(owner, genesisHash, entry.txid, {
+        status: 'confirmed',
+      });
+    } else if (
+      entry.lastValidBlockHeight !== undefined
+        ? blockHeight > entry.lastValidBlockHeight
+        : Date.now() - entry.sentAt > PENDING_EXPIRY
+    ) {
+      updateTransaction(owner, genesisHash, entry.txid, { status: 'expired' });
+    }
+  });
+}
+
+/**
+ * Transactions sent by the connected wallet through utils/send on the current
+ * cluster, newest first. Transactions left pending by a previous session are
+ * re-checked. Empty until the cluster's genesis hash is known.
+ */
+export function useTransactionLog(): [TransactionLogEntry[], () => void] {
+  const connection = useConnection();
+  const [genesisHash] = useGenesisHash();
+  const { wallet, connected } = useWallet();
+  const owner = connected && wallet ? wallet.publicKey.toBase58() : null;
+  const logKey = owner && genesisHash ? getLogKey(owner, genesisHash) : null;
+  const [entries, setEntries] = useLocalStorageState<TransactionLogEntry[]>(
+    logKey || 'transactionLog',
+    [],
+  );
+
+  useEffect(() => {
+    if (!owner || !genesisHash) {
+      return;
+    }
+    const pending = getTransactionLog(owner, genesisHash).filter(
+      ({ txid, status }) =>
+        status === 'pending' && !checkedTransactions.has(txid),
+    );
+    if (pending.length === 0) {
+      return;
+    }
+    pending.forEach(({ txid }) => checkedTransactions.add(txid));
+    checkPendingTransactions(connection, owner, genesisHash, pending).catch(
+      (e) => {
+        pending.forEach(({ txid }) => checkedTransactions.delete(txid));
+        console.log('Error checking pending transactions: ' + e.message);
+      },
+    );
+  }, [connection, owner, genesisHash]);
+
+  return [logKey ? entries || [] : [], () => setEntries([])];
+}
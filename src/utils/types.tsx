@@ -1,4 +1,9 @@
-import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
+import {
+  AccountInfo,
+  Commitment,
+  Connection,
+  PublicKey,
+} from '@solana/web3.js';
 // import { Market, OpenOrders } from '@project-serum/serum';
 // import { Event } from '@bonfida/aaob';
 // import { Order } from '@project-serum/serum/lib/market';
@@ -10,13 +15,22 @@ export interface ConnectionContextValues {
   setEndpoint: (newEndpoint: string) => void;
   connection: Connection;
   sendConnection: Connection;
+  sendEndpoints: string[];
+  cluster: Cluster;
   availableEndpoints: EndpointInfo[];
   setCustomEndpoints: (newCustomEndpoints: EndpointInfo[]) => void;
+  endpointHealth: { [endpoint: string]: EndpointHealth };
+  autoFailover: boolean;
+  setAutoFailover: (autoFailover: boolean) => void;
 }
 
 export interface WalletContextValues {
   wallet: WalletAdapter | undefined;
   connected: boolean;
+  publicKey: string | null;
+  // Silently reconnects on load to wallets that support it
+  autoReconnect: boolean;
+  setAutoReconnect: (autoReconnect: boolean) => void;
   providerUrl: string;
   setProviderUrl: (newProviderUrl: string) => void;
   providerName: string;
@@ -30,6 +44,7 @@ export interface MarketInfo {
   deprecated: boolean;
   quoteLabel?: string;
   baseLabel?: string;
+  lookupTable?: PublicKey;
 }
 
 export interface CustomMarketInfo {
@@ -115,12 +130,89 @@ export interface DeprecatedOpenOrdersBalances extends BalancesBase {
 export interface PreferencesContextValues {
   autoSettleEnabled: boolean;
   setAutoSettleEnabled: (newAutoSettleEnabled: boolean) => void;
-}
+  autoSettleThreshold: number;
+  setAutoSettleThreshold: (newAutoSettleThreshold: number) => void;
+  autoSettleStatus: AutoSettleStatus;
+  simulateTransactions: boolean;
+  setSimulateTransactions: (newSimulateTransactions: boolean) => void;
+  computeBudget: ComputeBudgetSettings;
+  setComputeBudget: (newComputeBudget: ComputeBudgetSettings) => void;
+}
+
+export interface AutoSettleStatus {
+  lastRun: number | null;
+  lastError: string | null;
+  settling: boolean;
+  pendingMarkets: string[];
+}
+
+export type PriorityFeeMode = 'off' | 'auto' | 'fixed';
+
+export interface ComputeBudgetSettings {
+  priorityFeeMode: PriorityFeeMode;
+  // Fee in fixed mode, and the cap on the estimated fee in auto mode
+  microLamports: number;
+  // Unset keeps the default limit
+  computeUnitLimit: number | null;
+}
+
+export type TransactionKind =
+  | 'placeOrder'
+  | 'cancel'
+  | 'settle'
+  | 'listMarket'
+  | 'other';
+
+export type TransactionStatus = 'pending' | 'confirmed' | 'failed' | 'expired';
+
+export interface TransactionLogEntry {
+  txid: string;
+  kind: TransactionKind;
+  description: string;
+  market?: string;
+  createsTokenAccount: boolean;
+  status: TransactionStatus;
+  sentAt: number;
+  lastValidBlockHeight?: number;
+  latency?: number;
+  error?: string;
+}
+
+export type Cluster =
+  | 'mainnet-beta'
+  | 'devnet'
+  | 'testnet'
+  | 'localnet'
+  | 'unknown';
 
 export interface EndpointInfo {
   name: string;
   endpoint: string;
   custom: boolean;
+  // Derived from `endpoint` when not set, not used for the send endpoints
+  wsEndpoint?: string;
+  // Only sent to `endpoint`, not to the send endpoints
+  httpHeaders?: { [header: string]: string };
+  // Defaults to 'recent'
+  commitment?: Commitment;
+  // Transactions are broadcast to all of these instead of `endpoint`
+  sendEndpoints?: string[];
+  // Base URL of an explorer for this cluster, used instead of Solscan
+  explorerUrl?: string;
+}
+
+export type EndpointStatus = 'healthy' | 'degraded' | 'down';
+
+export interface EndpointHealth {
+  status: EndpointStatus;
+  slot?: number;
+  // Slots behind the most recent endpoint of the same cluster
+  slotLag?: number;
+  // Milliseconds taken by the last successful check
+  latency?: number;
+  // Share of the recent checks that failed
+  errorRate: number;
+  checkedAt: number;
 }
 
 /**
@@ -130,6 +222,17 @@ export interface SelectedTokenAccounts {
   [tokenMint: string]: string;
 }
 
+export type TradeSource = 'eventQueue' | 'bonfida';
+
+export interface PublicTrade {
+  price: number;
+  size: number;
+  side: string;
+  time: number;
+  // Event queue sequence number, only set for event queue trades
+  seqNum?: number;
+}
+
 export interface BonfidaTrade {
   market: string;
   size: number;
@@ -18,6 +18,26 @@ export async function sleep(ms) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/** Maps `items` with at most `limit` calls of `fn` running at once. */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = [];
+  let next = 0;
+  async function worker() {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i], i);
+    }
+  }
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker),
+  );
+  return results;
+}
+
 export const percentFormat = new Intl.NumberFormat(undefined, {
   style: 'percent',
   minimumFractionDigits: 2,
@@ -128,6 +148,18 @@ export function useLocalStorageState<T = any>(
   ];
 }
 
+/**
+ * Sets a value read by useLocalStorageState from outside of a component, and
+ * re-renders the components using it.
+ */
+export function setLocalStorageState(key: string, newState: any) {
+  const stringState = JSON.stringify(newState);
+  localStorage.setItem(key, stringState);
+  localStorageListeners[key]?.forEach((listener) =>
+    listener(key + '\n' + stringState),
+  );
+}
+
 export function useEffectAfterTimeout(effect, timeout) {
   useEffect(() => {
     const handle = setTimeout(effect, timeout);
@@ -3,6 +3,7 @@ import React, {
   useContext,
   useEffect,
   useMemo,
+  useRef,
   useState,
 } from 'react';
 import Wallet from '@project-serum/sol-wallet-adapter';
@@ -11,6 +12,8 @@ import { useConnectionConfig } from './connection';
 import { useLocalStorageState } from './utils';
 import { WalletContextValues } from './types';
 import { Button, Modal } from 'antd';
+import LedgerAccountDialog from '../components/LedgerAccountDialog';
+import WatchAddressDialog from '../components/WatchAddressDialog';
 import {
   WalletAdapter,
   LedgerWalletAdapter,
@@ -18,6 +21,12 @@ import {
   SolletExtensionAdapter,
   MathWalletAdapter,
   SolflareExtensionWalletAdapter,
+  StandardWalletAdapter,
+  getStandardWallets,
+  WALLET_STANDARD_URL_PREFIX,
+  KeypairWalletAdapter,
+  isKeypairWalletEnabled,
+  WatchWalletAdapter,
 } from '../wallet-adapters';
 
 const ASSET_URL =
@@ -63,19 +72,86 @@ export const WALLET_PROVIDERS = [
     icon: `${ASSET_URL}/mathwallet.svg`,
     adapter: MathWalletAdapter,
   },
+  {
+    name: 'Watch address',
+    url: 'watch',
+    icon: `${process.env.PUBLIC_URL}/logo192.png`,
+    adapter: WatchWalletAdapter,
+  },
+  ...(isKeypairWalletEnabled()
+    ? [
+        {
+          name: 'Keypair (development)',
+          url: 'keypair',
+          icon: `${process.env.PUBLIC_URL}/logo192.png`,
+          adapter: KeypairWalletAdapter,
+        },
+      ]
+    : []),
 ];
 
+/**
+ * Wallet providers for the Wallet Standard wallets installed in the browser.
+ * Wallets that are also built in are left to their own adapter.
+ */
+function useStandardWalletProviders() {
+  const [providers, setProviders] = useState<typeof WALLET_PROVIDERS>([]);
+  // Providers keep their identity so that the wallet is not made again
+  // whenever another wallet registers
+  const cache = useRef(new Map<string, typeof WALLET_PROVIDERS[number]>());
+  useEffect(() => {
+    const standardWallets = getStandardWallets();
+    const update = () =>
+      setProviders(
+        standardWallets
+          .get()
+          .filter(({ name }) => !WALLET_PROVIDERS.some((p) => p.name === name))
+          .map(({ name, icon }) => {
+            if (!cache.current.has(name)) {
+              cache.current.set(name, {
+                name,
+                url: WALLET_STANDARD_URL_PREFIX + name,
+                icon,
+                adapter: StandardWalletAdapter,
+              });
+            }
+            return cache.current.get(name) as typeof WALLET_PROVIDERS[number];
+          }),
+      );
+    update();
+    return standardWallets.on(update);
+  }, []);
+  return providers;
+}
+
+function shortenPublicKey(publicKey: string) {
+  return publicKey.length > 20
+    ? `${publicKey.substring(0, 7)}.....${publicKey.substring(
+        publicKey.length - 7,
+        publicKey.length,
+      )}`
+    : publicKey;
+}
+
 const WalletContext = React.createContext<null | WalletContextValues>(null);
 
 export function WalletProvider({ children }) {
   const { endpoint } = useConnectionConfig();
 
   const [autoConnect, setAutoConnect] = useState(false);
+  const [autoReconnect, setAutoReconnect] = useLocalStorageState(
+    'autoReconnect',
+    false,
+  );
   const [providerUrl, setProviderUrl] = useLocalStorageState('walletProvider');
+  const standardProviders = useStandardWalletProviders();
+  const providers = useMemo(() => WALLET_PROVIDERS.concat(standardProviders), [
+    standardProviders,
+  ]);
 
   const provider = useMemo(
-    () => WALLET_PROVIDERS.find(({ url }) => url === providerUrl),
-    [providerUrl],
+    () => providers.find(({ url }) => url === providerUrl),
+    [providers, providerUrl],
   );
 
   let [wallet, setWallet] = useState<WalletAdapter | undefined>(undefined);
@@ -107,6 +183,9 @@ export function WalletProvider({ children }) {
   }, [provider, providerUrl, endpoint]);
 
   const [connected, setConnected] = useState(false);
+  // Keys the account data caches, so they follow account changes made in
+  // the wallet while the adapter stays the same
+  const [publicKey, setPublicKey] = useState<string | null>(null);
 
   useEffect(() => {
     if (wallet) {
@@ -115,27 +194,32 @@ export function WalletProvider({ children }) {
           console.log('connected');
           localStorage.removeItem('feeDiscountKey');
           setConnected(true);
-          const walletPublicKey = wallet.publicKey.toBase58();
-          const keyToDisplay =
-            walletPublicKey.length > 20
-              ? `${walletPublicKey.substring(
-                  0,
-                  7,
-                )}.....${walletPublicKey.substring(
-                  walletPublicKey.length - 7,
-                  walletPublicKey.length,
-                )}`
-              : walletPublicKey;
+          setPublicKey(wallet.publicKey.toBase58());
+          notify({
+            message: 'Wallet update',
+            description:
+              'Connected to wallet ' +
+              shortenPublicKey(wallet.publicKey.toBase58()),
+          });
+        }
+      });
 
+      wallet.on('accountChanged', () => {
+        if (wallet?.connected) {
+          localStorage.removeItem('feeDiscountKey');
+          setPublicKey(wallet.publicKey.toBase58());
           notify({
             message: 'Wallet update',
-            description: 'Connected to wallet ' + keyToDisplay,
+            description:
+              'Switched to account ' +
+              shortenPublicKey(wallet.publicKey.toBase58()),
           });
         }
       });
 
       wallet.on('disconnect', () => {
         setConnected(false);
+        setPublicKey(null);
         notify({
           message: 'Wallet update',
           description: 'Disconnected from wallet',
@@ -146,6 +230,7 @@ export function WalletProvider({ children }) {
 
     return () => {
       setConnected(false);
+      setPublicKey(null);
       if (wallet && wallet.connected) {
         wallet.disconnect();
         setConnected(false);
@@ -162,22 +247,68 @@ export function WalletProvider({ children }) {
     return () => {};
   }, [wallet, autoConnect]);
 
+  // Reconnects on load to wallets that already trust the app, so that
+  // nothing is prompted
+  useEffect(() => {
+    if (
+      wallet &&
+      autoReconnect &&
+      !autoConnect &&
+      wallet.supportsOnlyIfTrusted &&
+      !wallet.connected
+    ) {
+      Promise.resolve(wallet.connect({ onlyIfTrusted: true })).catch((e) =>
+        console.log('Could not reconnect to wallet', e),
+      );
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [wallet]);
+
   const [isModalVisible, setIsModalVisible] = useState(false);
+  const [isLedgerModalVisible, setIsLedgerModalVisible] = useState(false);
+  const [isWatchModalVisible, setIsWatchModalVisible] = useState(false);
 
   const select = useCallback(() => setIsModalVisible(true), []);
   const close = useCallback(() => setIsModalVisible(false), []);
 
+  const ledgerProvider = WALLET_PROVIDERS.find(
+    ({ adapter }) => adapter === LedgerWalletAdapter,
+  );
+  const connectLedger = async () => {
+    setIsLedgerModalVisible(false);
+    // Reconnect so that a newly chosen account is used
+    if (wallet?.connected && providerUrl === ledgerProvider?.url) {
+      await wallet.disconnect();
+    }
+    setProviderUrl(ledgerProvider?.url);
+    setAutoConnect(true);
+  };
+
+  const watchProvider = WALLET_PROVIDERS.find(
+    ({ adapter }) => adapter === WatchWalletAdapter,
+  );
+  const connectWatch = async () => {
+    setIsWatchModalVisible(false);
+    // Reconnect so that a newly entered address is used
+    if (wallet?.connected && providerUrl === watchProvider?.url) {
+      await wallet.disconnect();
+    }
+    setProviderUrl(watchProvider?.url);
+    setAutoConnect(true);
+  };
+
   return (
     <WalletContext.Provider
       value={{
         wallet,
         connected,
+        publicKey,
+        autoReconnect,
+        setAutoReconnect,
         select,
         providerUrl,
         setProviderUrl,
-        providerName:
-          WALLET_PROVIDERS.find(({ url }) => url === providerUrl)?.name ??
-          providerUrl,
+        providerName: provider?.name ?? providerUrl,
       }}
     >
       {children}
@@ -189,11 +320,21 @@ export function WalletProvider({ children }) {
         onCancel={close}
         width={400}
       >
-        {WALLET_PROVIDERS.map((provider) => {
+        {providers.map((provider) => {
           const onClick = function () {
+            close();
+            // Ledger accounts are chosen before connecting
+            if (provider === ledgerProvider) {
+              setIsLedgerModalVisible(true);
+              return;
+            }
+            // The address to watch is entered before connecting
+            if (provider === watchProvider) {
+              setIsWatchModalVisible(true);
+              return;
+            }
             setProviderUrl(provider.url);
             setAutoConnect(true);
-            close();
           };
 
           return (
@@ -222,6 +363,20 @@ export function WalletProvider({ children }) {
           );
         })}
       </Modal>
+      {isLedgerModalVisible && (
+        <LedgerAccountDialog
+          visible={isLedgerModalVisible}
+          onConnect={connectLedger}
+          onClose={() => setIsLedgerModalVisible(false)}
+        />
+      )}
+      {isWatchModalVisible && (
+        <WatchAddressDialog
+          visible={isWatchModalVisible}
+          onConnect={connectWatch}
+          onClose={() => setIsWatchModalVisible(false)}
+        />
+      )}
     </WalletContext.Provider>
   );
 }
@@ -236,9 +391,14 @@ export function useWallet() {
   return {
     connected: context.connected,
     wallet: wallet,
+    publicKey: context.publicKey,
+    // Watched addresses are shown like a connected wallet but cannot sign
+    readOnly: context.connected && !!wallet?.readOnly,
     providerUrl: context.providerUrl,
     setProvider: context.setProviderUrl,
     providerName: context.providerName,
+    autoReconnect: context.autoReconnect,
+    setAutoReconnect: context.setAutoReconnect,
     select: context.select,
     connect() {
       wallet ? wallet.connect() : context.select();
@@ -4,3 +4,6 @@ export * from './sollet-extension';
 export * from './math';
 export * from './types';
 export * from './solflare-extension';
+export * from './wallet-standard';
+export * from './keypair';
+export * from './watch';
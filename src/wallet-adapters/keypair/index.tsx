@@ -0,0 +1,138 @@
+import EventEmitter from 'eventemitter3';
+import {
+  Keypair,
+  PublicKey,
+  Transaction,
+  TransactionVersion,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { DEFAULT_PUBLIC_KEY, WalletAdapter } from '../types';
+
+const KEYPAIR_WALLET_KEY = 'keypairWalletSecretKey';
+
+/** The keypair wallet is for development only and hidden unless enabled. */
+export function isKeypairWalletEnabled() {
+  return process.env.REACT_APP_ENABLE_KEYPAIR_WALLET === 'true';
+}
+
+/** Parses a secret key in the JSON byte array format of solana-keygen. */
+export function parseSecretKey(text: string): Keypair {
+  let bytes;
+  try {
+    bytes = JSON.parse(text);
+  } catch (e) {
+    throw new Error('Secret key must be a JSON array of bytes');
+  }
+  if (!Array.isArray(bytes) || bytes.length !== 64) {
+    throw new Error('Secret key must be 64 bytes long');
+  }
+  return Keypair.fromSecretKey(Uint8Array.from(bytes));
+}
+
+function loadKeypair(): Keypair {
+  const saved = localStorage.getItem(KEYPAIR_WALLET_KEY);
+  if (saved) {
+    try {
+      return parseSecretKey(saved);
+    } catch (e) {
+      console.log('Error reading keypair wallet secret key', e);
+    }
+  }
+  const keypair = Keypair.generate();
+  saveKeypair(keypair);
+  return keypair;
+}
+
+function saveKeypair(keypair: Keypair) {
+  localStorage.setItem(
+    KEYPAIR_WALLET_KEY,
+    JSON.stringify(Array.from(keypair.secretKey)),
+  );
+}
+
+/**
+ * Wallet keeping its secret key in local storage and signing without a
+ * prompt. A key is generated on first connect unless one was imported.
+ */
+export class KeypairWalletAdapter
+  extends EventEmitter
+  implements WalletAdapter {
+  _keypair: Keypair | null;
+
+  constructor() {
+    super();
+    this._keypair = null;
+  }
+
+  get publicKey(): PublicKey {
+    return this._keypair?.publicKey || DEFAULT_PUBLIC_KEY;
+  }
+
+  get connected() {
+    return this._keypair !== null;
+  }
+
+  get supportsOnlyIfTrusted() {
+    return true;
+  }
+
+  get autoApprove() {
+    return true;
+  }
+
+  get supportedTransactionVersions(): ReadonlySet<TransactionVersion> {
+    return new Set<TransactionVersion>(['legacy', 0]);
+  }
+
+  /** The secret key as a JSON byte array, for backing it up. */
+  exportSecretKey(): string | null {
+    return this._keypair
+      ? JSON.stringify(Array.from(this._keypair.secretKey))
+      : null;
+  }
+
+  /** Replaces the stored key, reconnecting with it if connected. */
+  async setKeypair(keypair: Keypair) {
+    saveKeypair(keypair);
+    if (this._keypair) {
+      await this.disconnect();
+      await this.connect();
+    }
+  }
+
+  async signTransaction(transaction: Transaction) {
+    if (!this._keypair) {
+      throw new Error('Keypair wallet not connected');
+    }
+    transaction.partialSign(this._keypair);
+    return transaction;
+  }
+
+  async signAllTransactions(transactions: Transaction[]) {
+    return Promise.all(
+      transactions.map((transaction) => this.signTransaction(transaction)),
+    );
+  }
+
+  async signAllVersionedTransactions(transactions: VersionedTransaction[]) {
+    if (!this._keypair) {
+      throw new Error('Keypair wallet not connected');
+    }
+    for (const transaction of transactions) {
+      transaction.sign([this._keypair]);
+    }
+    return transactions;
+  }
+
+  async connect() {
+    this._keypair = loadKeypair();
+    this.emit('connect', this._keypair.publicKey);
+  }
+
+  async disconnect() {
+    if (this._keypair) {
+      this._keypair = null;
+      this.emit('disconnect');
+    }
+  }
+}
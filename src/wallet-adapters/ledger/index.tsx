@@ -3,21 +3,93 @@ import type { Transaction } from '@solana/web3.js';
 
 import EventEmitter from 'eventemitter3';
 import { PublicKey } from '@solana/web3.js';
+import TransportWebHID from '@ledgerhq/hw-transport-webhid';
 import TransportWebUSB from '@ledgerhq/hw-transport-webusb';
 import { notify } from '../../utils/notifications';
-import { getPublicKey, signTransaction } from './core';
+import { setLocalStorageState } from '../../utils/utils';
+import { getPublicKey, getSolanaDerivationPath, signTransaction } from './core';
 import { DEFAULT_PUBLIC_KEY, WalletAdapter } from '../types';
 
+export type LedgerTransportType = 'webusb' | 'webhid';
+
+export interface LedgerAccount {
+  transport: LedgerTransportType;
+  // Unset for the 44'/501' path used before accounts could be chosen
+  account?: number;
+}
+
+const LEDGER_ACCOUNT_KEY = 'ledgerAccount';
+
+/** The account chosen in the last Ledger connect flow. */
+export function getLedgerAccount(): LedgerAccount {
+  try {
+    const saved = localStorage.getItem(LEDGER_ACCOUNT_KEY);
+    if (saved) {
+      return JSON.parse(saved);
+    }
+  } catch (e) {
+    console.log('Error reading Ledger account', e);
+  }
+  return { transport: 'webusb' };
+}
+
+export function setLedgerAccount(ledgerAccount: LedgerAccount) {
+  setLocalStorageState(LEDGER_ACCOUNT_KEY, ledgerAccount);
+}
+
+export function formatLedgerDerivationPath(account?: number) {
+  return account === undefined ? "44'/501'" : `44'/501'/${account}'`;
+}
+
+export function isWebHIDSupported() {
+  return typeof navigator !== 'undefined' && 'hid' in navigator;
+}
+
+/** Opens a device the user already allowed, and asks for one otherwise. */
+export async function openLedgerTransport(
+  type: LedgerTransportType,
+): Promise<Transport> {
+  const TransportClass = type === 'webhid' ? TransportWebHID : TransportWebUSB;
+  return (
+    (await TransportClass.openConnected()) || (await TransportClass.create())
+  );
+}
+
+/**
+ * Public keys of the 44'/501' path followed by the first `count` account
+ * paths, one at a time since the device handles a single request.
+ */
+export async function scanLedgerAccounts(
+  transport: Transport,
+  count: number,
+): Promise<{ account?: number; publicKey: PublicKey }[]> {
+  const accounts: { account?: number; publicKey: PublicKey }[] = [
+    { publicKey: await getPublicKey(transport) },
+  ];
+  for (let account = 0; account < count; ++account) {
+    accounts.push({
+      account,
+      publicKey: await getPublicKey(
+        transport,
+        getSolanaDerivationPath(account),
+      ),
+    });
+  }
+  return accounts;
+}
+
 export class LedgerWalletAdapter extends EventEmitter implements WalletAdapter {
   _connecting: boolean;
   _publicKey: PublicKey | null;
   _transport: Transport | null;
+  _derivationPath: Buffer;
 
   constructor() {
     super();
     this._connecting = false;
     this._publicKey = null;
     this._transport = null;
+    this._derivationPath = getSolanaDerivationPath();
   }
 
   get publicKey() {
@@ -50,8 +122,11 @@ export class LedgerWalletAdapter extends EventEmitter implements WalletAdapter {
       throw new Error('Not connected to Ledger');
     }
 
-    // @TODO: account selection (derivation path changes with account)
-    const signature = await signTransaction(this._transport, transaction);
+    const signature = await signTransaction(
+      this._transport,
+      transaction,
+      this._derivationPath,
+    );
 
     transaction.addSignature(this._publicKey, signature);
 
@@ -66,10 +141,13 @@ export class LedgerWalletAdapter extends EventEmitter implements WalletAdapter {
     this._connecting = true;
 
     try {
-      // @TODO: transport selection (WebUSB, WebHID, bluetooth, ...)
-      this._transport = await TransportWebUSB.create();
-      // @TODO: account selection
-      this._publicKey = await getPublicKey(this._transport);
+      const { transport, account } = getLedgerAccount();
+      this._transport = await openLedgerTransport(transport);
+      this._derivationPath = getSolanaDerivationPath(account);
+      this._publicKey = await getPublicKey(
+        this._transport,
+        this._derivationPath,
+      );
       this.emit('connect', this._publicKey);
     } catch (error) {
       notify({
@@ -1,9 +1,14 @@
 import EventEmitter from 'eventemitter3';
-import { PublicKey, Transaction } from '@solana/web3.js';
+import {
+  PublicKey,
+  Transaction,
+  TransactionVersion,
+  VersionedTransaction,
+} from '@solana/web3.js';
 import { notify } from '../../utils/notifications';
 import { DEFAULT_PUBLIC_KEY, WalletAdapter } from '../types';
 
-type PhantomEvent = 'disconnect' | 'connect';
+type PhantomEvent = 'disconnect' | 'connect' | 'accountChanged';
 type PhantomRequestMethod =
   | 'connect'
   | 'disconnect'
@@ -15,8 +20,10 @@ interface PhantomProvider {
   isConnected?: boolean;
   autoApprove?: boolean;
   signTransaction: (transaction: Transaction) => Promise<Transaction>;
-  signAllTransactions: (transactions: Transaction[]) => Promise<Transaction[]>;
-  connect: () => Promise<void>;
+  signAllTransactions: <T extends Transaction | VersionedTransaction>(
+    transactions: T[],
+  ) => Promise<T[]>;
+  connect: (options?: { onlyIfTrusted?: boolean }) => Promise<void>;
   disconnect: () => Promise<void>;
   on: (event: PhantomEvent, handler: (args: any) => void) => void;
   request: (method: PhantomRequestMethod, params: any) => Promise<any>;
@@ -46,6 +53,15 @@ export class PhantomWalletAdapter
     this.emit('disconnect', ...args);
   }
 
+  // Phantom passes null when the new account never connected to the app
+  private _handleAccountChanged = (publicKey: PublicKey | null) => {
+    if (publicKey) {
+      this.emit('accountChanged', publicKey);
+    } else {
+      this.disconnect();
+    }
+  }
+
   get connected() {
     return this._provider?.isConnected || false;
   }
@@ -54,6 +70,10 @@ export class PhantomWalletAdapter
     return this._provider?.autoApprove || false;
   }
 
+  get supportsOnlyIfTrusted() {
+    return true;
+  }
+
   async signAllTransactions(
     transactions: Transaction[],
   ): Promise<Transaction[]> {
@@ -64,6 +84,20 @@ export class PhantomWalletAdapter
     return this._provider.signAllTransactions(transactions);
   }
 
+  get supportedTransactionVersions(): ReadonlySet<TransactionVersion> {
+    return new Set<TransactionVersion>(['legacy', 0]);
+  }
+
+  async signAllVersionedTransactions(
+    transactions: VersionedTransaction[],
+  ): Promise<VersionedTransaction[]> {
+    if (!this._provider) {
+      return transactions;
+    }
+
+    return this._provider.signAllTransactions(transactions);
+  }
+
   get publicKey() {
     return this._provider?.publicKey || DEFAULT_PUBLIC_KEY;
   }
@@ -76,8 +110,11 @@ export class PhantomWalletAdapter
     return this._provider.signTransaction(transaction);
   }
 
-  connect() {
+  connect(options?: { onlyIfTrusted?: boolean }) {
     if (!this._provider) {
+      if (options?.onlyIfTrusted) {
+        return;
+      }
       window.open('https://phantom.app/', '_blank');
       notify({
         message: 'Connection Error',
@@ -91,7 +128,10 @@ export class PhantomWalletAdapter
     if (!this._provider.listeners('disconnect').length) {
       this._provider?.on('disconnect', this._handleDisconnect);
     }
-    return this._provider?.connect();
+    if (!this._provider.listeners('accountChanged').length) {
+      this._provider?.on('accountChanged', this._handleAccountChanged);
+    }
+    return this._provider?.connect(options);
   }
 
   disconnect() {
@@ -1,5 +1,10 @@
 import EventEmitter from 'eventemitter3';
-import { PublicKey, Transaction } from '@solana/web3.js';
+import {
+  PublicKey,
+  Transaction,
+  TransactionVersion,
+  VersionedTransaction,
+} from '@solana/web3.js';
 import { notify } from '../../utils/notifications';
 import { DEFAULT_PUBLIC_KEY, WalletAdapter } from '../types';
 
@@ -15,7 +20,9 @@ interface SolflareExtensionProvider {
   isConnected?: boolean;
   autoApprove?: boolean;
   signTransaction: (transaction: Transaction) => Promise<Transaction>;
-  signAllTransactions: (transactions: Transaction[]) => Promise<Transaction[]>;
+  signAllTransactions: <T extends Transaction | VersionedTransaction>(
+    transactions: T[],
+  ) => Promise<T[]>;
   connect: () => Promise<void>;
   disconnect: () => Promise<void>;
   on: (event: SolflareExtensionEvent, handler: (args: any) => void) => void;
@@ -66,6 +73,20 @@ export class SolflareExtensionWalletAdapter
     return this._provider.signAllTransactions(transactions);
   }
 
+  get supportedTransactionVersions(): ReadonlySet<TransactionVersion> {
+    return new Set<TransactionVersion>(['legacy', 0]);
+  }
+
+  async signAllVersionedTransactions(
+    transactions: VersionedTransaction[],
+  ): Promise<VersionedTransaction[]> {
+    if (!this._provider) {
+      return transactions;
+    }
+
+    return this._provider.signAllTransactions(transactions);
+  }
+
   get publicKey() {
     return this._provider?.publicKey || DEFAULT_PUBLIC_KEY;
   }
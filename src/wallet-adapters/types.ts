@@ -1,4 +1,9 @@
-import { PublicKey, Transaction } from '@solana/web3.js';
+import {
+  PublicKey,
+  Transaction,
+  TransactionVersion,
+  VersionedTransaction,
+} from '@solana/web3.js';
 
 export const DEFAULT_PUBLIC_KEY = new PublicKey(
   '11111111111111111111111111111111',
@@ -10,7 +15,20 @@ export interface WalletAdapter {
   connected: boolean;
   signTransaction: (transaction: Transaction) => Promise<Transaction>;
   signAllTransactions: (transaction: Transaction[]) => Promise<Transaction[]>;
-  connect: () => any;
+  // Wallets that leave these unset can only sign legacy transactions
+  supportedTransactionVersions?: ReadonlySet<TransactionVersion> | null;
+  signAllVersionedTransactions?: (
+    transactions: VersionedTransaction[],
+  ) => Promise<VersionedTransaction[]>;
+  signMessage?: (message: Uint8Array) => Promise<Uint8Array>;
+  // Set for wallets that can only be looked at, signing always fails
+  readOnly?: boolean;
+  // Set for wallets that can connect without a prompt when they already
+  // trust the app, `connect({ onlyIfTrusted: true })` fails otherwise
+  supportsOnlyIfTrusted?: boolean;
+  // Emits `connect`, `disconnect`, and `accountChanged` when the user picks
+  // another account in the wallet
+  connect: (options?: { onlyIfTrusted?: boolean }) => any;
   disconnect: () => any;
   on<T>(event: string, fn: () => void): this;
 }
@@ -0,0 +1,270 @@
+import EventEmitter from 'eventemitter3';
+import {
+  PublicKey,
+  Transaction,
+  TransactionVersion,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { notify } from '../../utils/notifications';
+import { DEFAULT_PUBLIC_KEY, WalletAdapter } from '../types';
+
+// The parts of the Wallet Standard (github.com/wallet-standard) used here
+
+interface StandardWalletAccount {
+  address: string;
+  publicKey: Uint8Array;
+  chains: readonly string[];
+  features: readonly string[];
+}
+
+interface StandardWallet {
+  version: string;
+  name: string;
+  icon: string;
+  chains: readonly string[];
+  features: { [feature: string]: any };
+  accounts: readonly StandardWalletAccount[];
+}
+
+interface StandardWalletsApi {
+  register: (...wallets: StandardWallet[]) => () => void;
+}
+
+const CONNECT = 'standard:connect';
+const DISCONNECT = 'standard:disconnect';
+const EVENTS = 'standard:events';
+const SIGN_TRANSACTION = 'solana:signTransaction';
+const SIGN_MESSAGE = 'solana:signMessage';
+
+// Standard wallets are listed under this prefix and their name
+export const WALLET_STANDARD_URL_PREFIX = 'wallet-standard:';
+
+const registeredWallets = new Set<StandardWallet>();
+const registerListeners = new Set<() => void>();
+let listening = false;
+
+function register(...wallets: StandardWallet[]) {
+  wallets.forEach((wallet) => registeredWallets.add(wallet));
+  registerListeners.forEach((listener) => listener());
+  return () => {
+    wallets.forEach((wallet) => registeredWallets.delete(wallet));
+    registerListeners.forEach((listener) => listener());
+  };
+}
+
+function findSolanaAccount(accounts: readonly StandardWalletAccount[]) {
+  return (
+    accounts.find(({ chains }) =>
+      chains.some((chain) => chain.startsWith('solana:')),
+    ) || accounts[0]
+  );
+}
+
+function isSolanaWallet(wallet: StandardWallet) {
+  return (
+    wallet.chains.some((chain) => chain.startsWith('solana:')) &&
+    CONNECT in wallet.features &&
+    SIGN_TRANSACTION in wallet.features
+  );
+}
+
+/**
+ * Wallets registered through the Wallet Standard events. Wallets loaded
+ * before the app answer the app-ready event, later ones dispatch
+ * register-wallet themselves.
+ */
+export function getStandardWallets() {
+  if (!listening) {
+    listening = true;
+    const api: StandardWalletsApi = Object.freeze({ register });
+    window.addEventListener('wallet-standard:register-wallet', (event: any) =>
+      event.detail(api),
+    );
+    window.dispatchEvent(
+      new CustomEvent('wallet-standard:app-ready', { detail: api }),
+    );
+  }
+  return {
+    get: () => [...registeredWallets].filter(isSolanaWallet),
+    on: (listener: () => void) => {
+      registerListeners.add(listener);
+      return () => {
+        registerListeners.delete(listener);
+      };
+    },
+  };
+}
+
+export class StandardWalletAdapter
+  extends EventEmitter
+  implements WalletAdapter {
+  _wallet: StandardWallet | undefined;
+  _account: StandardWalletAccount | null;
+  _publicKey: PublicKey | null;
+  _removeChangeListener: (() => void) | null;
+
+  constructor(providerUrl: string) {
+    super();
+    const name = providerUrl.slice(WALLET_STANDARD_URL_PREFIX.length);
+    this._wallet = getStandardWallets()
+      .get()
+      .find((wallet) => wallet.name === name);
+    this._account = null;
+    this._publicKey = null;
+    this._removeChangeListener = null;
+  }
+
+  get publicKey() {
+    return this._publicKey || DEFAULT_PUBLIC_KEY;
+  }
+
+  get connected() {
+    return this._publicKey !== null;
+  }
+
+  get autoApprove() {
+    return false;
+  }
+
+  get supportsOnlyIfTrusted() {
+    return true;
+  }
+
+  get supportedTransactionVersions(): ReadonlySet<TransactionVersion> | null {
+    const versions: TransactionVersion[] | undefined = this._wallet?.features[
+      SIGN_TRANSACTION
+    ]?.supportedTransactionVersions;
+    return versions ? new Set(versions) : null;
+  }
+
+  private async _signTransactions(
+    transactions: Uint8Array[],
+  ): Promise<Uint8Array[]> {
+    if (!this._wallet || !this._account) {
+      throw new Error('Wallet not connected');
+    }
+    const account = this._account;
+    // One call for all of them, so the wallet prompts once
+    const outputs = await this._wallet.features[
+      SIGN_TRANSACTION
+    ].signTransaction(
+      ...transactions.map((transaction) => ({ account, transaction })),
+    );
+    return outputs.map(({ signedTransaction }) => signedTransaction);
+  }
+
+  async signTransaction(transaction: Transaction) {
+    const [signed] = await this.signAllTransactions([transaction]);
+    return signed;
+  }
+
+  async signAllTransactions(
+    transactions: Transaction[],
+  ): Promise<Transaction[]> {
+    const signed = await this._signTransactions(
+      transactions.map((transaction) =>
+        transaction.serialize({
+          requireAllSignatures: false,
+          verifySignatures: false,
+        }),
+      ),
+    );
+    return signed.map((bytes) => Transaction.from(bytes));
+  }
+
+  async signAllVersionedTransactions(
+    transactions: VersionedTransaction[],
+  ): Promise<VersionedTransaction[]> {
+    const signed = await this._signTransactions(
+      transactions.map((transaction) => transaction.serialize()),
+    );
+    return signed.map((bytes) => VersionedTransaction.deserialize(bytes));
+  }
+
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    const feature = this._wallet?.features[SIGN_MESSAGE];
+    if (!feature) {
+      throw new Error('Wallet does not support signing messages');
+    }
+    if (!this._account) {
+      throw new Error('Wallet not connected');
+    }
+    const [{ signature }] = await feature.signMessage({
+      account: this._account,
+      message,
+    });
+    return signature;
+  }
+
+  async connect(options?: { onlyIfTrusted?: boolean }) {
+    const silent = !!options?.onlyIfTrusted;
+    if (!this._wallet) {
+      if (silent) {
+        return;
+      }
+      notify({
+        message: 'Connection Error',
+        description: 'Wallet not found, it may have been uninstalled',
+      });
+      return;
+    }
+    try {
+      // Silent connects share no accounts unless the app is trusted
+      const { accounts } = await this._wallet.features[CONNECT].connect(
+        silent ? { silent } : undefined,
+      );
+      const account = findSolanaAccount(accounts);
+      if (!account) {
+        if (silent) {
+          return;
+        }
+        throw new Error('The wallet did not share an account');
+      }
+      this._account = account;
+      this._publicKey = new PublicKey(account.publicKey);
+      this._removeChangeListener =
+        this._wallet.features[EVENTS]?.on('change', ({ accounts }) => {
+          if (
+            !accounts ||
+            accounts.some(({ address }) => address === this._account?.address)
+          ) {
+            return;
+          }
+          const account = findSolanaAccount(accounts);
+          if (account) {
+            this._account = account;
+            this._publicKey = new PublicKey(account.publicKey);
+            this.emit('accountChanged', this._publicKey);
+          } else {
+            this.disconnect();
+          }
+        }) || null;
+      this.emit('connect', this._publicKey);
+    } catch (e) {
+      console.warn(e);
+      if (silent) {
+        return;
+      }
+      notify({
+        message: 'Connection Error',
+        description: e.message,
+      });
+    }
+  }
+
+  async disconnect() {
+    if (!this._publicKey) {
+      return;
+    }
+    this._removeChangeListener?.();
+    this._removeChangeListener = null;
+    this._account = null;
+    this._publicKey = null;
+    try {
+      await this._wallet?.features[DISCONNECT]?.disconnect();
+    } catch (e) {
+      console.warn(e);
+    }
+    this.emit('disconnect');
+  }
+}
@@ -0,0 +1,80 @@
+import EventEmitter from 'eventemitter3';
+import { PublicKey, Transaction } from '@solana/web3.js';
+import { setLocalStorageState } from '../../utils/utils';
+import { DEFAULT_PUBLIC_KEY, WalletAdapter } from '../types';
+
+const WATCH_ADDRESS_KEY = 'watchAddress';
+
+/** The address chosen in the last watch address flow. */
+export function getWatchAddress(): PublicKey | null {
+  try {
+    const saved = localStorage.getItem(WATCH_ADDRESS_KEY);
+    if (saved) {
+      return new PublicKey(JSON.parse(saved));
+    }
+  } catch (e) {
+    console.log('Error reading watch address', e);
+  }
+  return null;
+}
+
+export function setWatchAddress(address: PublicKey) {
+  setLocalStorageState(WATCH_ADDRESS_KEY, address.toBase58());
+}
+
+/**
+ * Read only wallet for looking at the orders and balances of any address.
+ * It has no keys, so signing always fails.
+ */
+export class WatchWalletAdapter extends EventEmitter implements WalletAdapter {
+  _publicKey: PublicKey | null;
+
+  constructor() {
+    super();
+    this._publicKey = null;
+  }
+
+  get publicKey() {
+    return this._publicKey || DEFAULT_PUBLIC_KEY;
+  }
+
+  get connected() {
+    return this._publicKey !== null;
+  }
+
+  get supportsOnlyIfTrusted() {
+    return true;
+  }
+
+  get autoApprove() {
+    return false;
+  }
+
+  get readOnly() {
+    return true;
+  }
+
+  async signTransaction(transaction: Transaction): Promise<Transaction> {
+    throw new Error('Watched addresses cannot sign transactions');
+  }
+
+  async signAllTransactions(
+    transactions: Transaction[],
+  ): Promise<Transaction[]> {
+    throw new Error('Watched addresses cannot sign transactions');
+  }
+
+  async connect() {
+    this._publicKey = getWatchAddress();
+    if (this._publicKey) {
+      this.emit('connect', this._publicKey);
+    }
+  }
+
+  async disconnect() {
+    if (this._publicKey) {
+      this._publicKey = null;
+      this.emit('disconnect');
+    }
+  }
+}